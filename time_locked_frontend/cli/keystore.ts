@@ -0,0 +1,81 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+  SIGNATURE_FLAG_TO_SCHEME,
+  decodeSuiPrivateKey,
+  encodeSuiPrivateKey,
+  type Keypair,
+  type SignatureFlag,
+} from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { fromBase64, normalizeSuiAddress } from "@mysten/sui/utils";
+
+const SUI_CONFIG_DIR = join(homedir(), ".sui", "sui_config");
+export const DEFAULT_KEYSTORE = join(SUI_CONFIG_DIR, "sui.keystore");
+
+/** Accepts a `suiprivkey1…` string or a keystore entry (base64 flag||key). */
+export function keypairFromString(value: string): Keypair {
+  const bech32 = value.startsWith("suiprivkey")
+    ? value
+    : keystoreEntryToBech32(value);
+  const { schema, secretKey } = decodeSuiPrivateKey(bech32);
+  switch (schema) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new Error(`Unsupported key scheme ${schema}`);
+  }
+}
+
+function keystoreEntryToBech32(entry: string): string {
+  const bytes = fromBase64(entry.trim());
+  const scheme = SIGNATURE_FLAG_TO_SCHEME[bytes[0] as SignatureFlag];
+  if (!scheme) throw new Error("Unrecognised keystore entry");
+  return encodeSuiPrivateKey(bytes.slice(1), scheme);
+}
+
+/** `active_address` from the Sui CLI's client.yaml, if there is one. */
+async function activeAddress(): Promise<string | null> {
+  try {
+    const yaml = await readFile(join(SUI_CONFIG_DIR, "client.yaml"), "utf8");
+    const match = /^active_address:\s*"?(0x[0-9a-fA-F]+)"?/m.exec(yaml);
+    return match ? normalizeSuiAddress(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface LoadSignerOptions {
+  keystore?: string;
+  address?: string;
+}
+
+/**
+ * Resolves the signing key: `TIMELOCK_PRIVATE_KEY` if set, otherwise the key
+ * for `address` (or the Sui CLI's active address, or the first key) in the
+ * keystore file.
+ */
+export async function loadSigner({
+  keystore = DEFAULT_KEYSTORE,
+  address,
+}: LoadSignerOptions = {}): Promise<Keypair> {
+  const fromEnv = process.env.TIMELOCK_PRIVATE_KEY;
+  if (fromEnv) return keypairFromString(fromEnv);
+
+  const entries = JSON.parse(await readFile(keystore, "utf8")) as string[];
+  const keypairs = entries.map(keypairFromString);
+  if (keypairs.length === 0) throw new Error(`No keys in ${keystore}`);
+
+  const wanted = address ? normalizeSuiAddress(address) : await activeAddress();
+  if (!wanted) return keypairs[0];
+  const match = keypairs.find((k) => k.toSuiAddress() === wanted);
+  if (!match) throw new Error(`No key for ${wanted} in ${keystore}`);
+  return match;
+}
@@ -0,0 +1,392 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { Keypair } from "@mysten/sui/cryptography";
+import type { Transaction } from "@mysten/sui/transactions";
+import {
+  DEFAULT_PACKAGE_ID,
+  DepositIndex,
+  MemoryEventStore,
+  NameResolver,
+  SUI_COIN_TYPE,
+  TimeDepositClient,
+  createdDepositIds,
+  decodeAbort,
+  describeError,
+  formatCoinAmount,
+  parseAmount,
+  parsePackageVersions,
+  type DryRunResult,
+  sumWithdrawals,
+  syncDepositEvents,
+  validateDeposit,
+} from "../src/sdk/index.ts";
+import { loadSigner } from "./keystore.ts";
+
+const NETWORKS = ["localnet", "devnet", "testnet", "mainnet"] as const;
+type Network = (typeof NETWORKS)[number];
+
+/**
+ * Exit codes. Contract aborts map to `ABORT_EXIT_BASE + code`, so e.g.
+ * `ETooEarly` (1) exits with 11.
+ */
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const ABORT_EXIT_BASE = 10;
+
+const USAGE = `Usage: timelock <command> [options]
+
+Commands:
+  create --recipient <addr|name.sui> --amount <n> --duration <minutes> [--coin-type <type>]
+  list [--address <addr>]          Live deposits sent or received by an address
+  info <deposit-id>                Deposit fields and on-chain lock state
+  withdraw <deposit-id> [--as depositor|recipient]
+  claim-all                        Claim every unlocked deposit sent to you
+
+Options:
+  --network <name>     localnet | devnet | testnet | mainnet (default testnet)
+  --package <ids>      Package ID (default $TIMELOCK_PACKAGE_ID, or the
+                       testnet deployment on testnet); after upgrades, every
+                       version comma-separated, original first
+  --keystore <path>    Sui keystore file (default ~/.sui/sui_config/sui.keystore)
+  --address <addr>     Key to sign with, or address to list
+  --json               Machine-readable output
+  --dry-run            Simulate instead of executing
+  -h, --help           Show this help
+
+The signing key is read from $TIMELOCK_PRIVATE_KEY (suiprivkey1… or a
+keystore entry) when set.
+
+Exit codes: 0 success, 1 error, 2 usage, 10-15 contract abort
+(10 + the deposit module's abort code).`;
+
+class UsageError extends Error {}
+
+interface Context {
+  client: SuiClient;
+  timeDeposits: TimeDepositClient;
+  json: boolean;
+  dryRun: boolean;
+  signer: () => Promise<Keypair>;
+}
+
+function print(ctx: Context, value: unknown, text: string) {
+  if (ctx.json) {
+    console.log(
+      JSON.stringify(
+        value,
+        (_, v) => (typeof v === "bigint" ? v.toString() : v),
+        2,
+      ),
+    );
+  } else {
+    console.log(text);
+  }
+}
+
+async function formatAmount(ctx: Context, amount: bigint, coinType: string) {
+  return formatCoinAmount(amount, await ctx.timeDeposits.getCoinInfo(coinType));
+}
+
+/** Dry-runs or executes `tx`, throwing a `TimeDepositError` on abort. */
+async function run(ctx: Context, tx: Transaction) {
+  const signer = await ctx.signer();
+  const sender = signer.toSuiAddress();
+  const preflight = await ctx.timeDeposits.dryRun(tx, sender);
+  if (!preflight.ok) throw preflight.abort ?? new Error(preflight.error!);
+  if (ctx.dryRun) return { dryRun: true as const, preflight };
+
+  const res = await ctx.client.signAndExecuteTransaction({
+    signer,
+    transaction: tx,
+  });
+  const receipt = await ctx.client.waitForTransaction({
+    digest: res.digest,
+    options: { showEffects: true, showEvents: true, showObjectChanges: true },
+  });
+  const status = receipt.effects?.status;
+  if (status?.status === "failure") {
+    throw decodeAbort(status.error) ?? new Error(describeError(status.error));
+  }
+  return { dryRun: false as const, receipt };
+}
+
+function printDryRun(ctx: Context, preflight: DryRunResult) {
+  print(ctx, preflight, `Dry run OK, estimated gas ${preflight.gasCost} MIST`);
+}
+
+function requireString(value: string | undefined, name: string): string {
+  if (!value) throw new UsageError(`Missing --${name}`);
+  return value;
+}
+
+// ----------------
+// Commands
+// ----------------
+
+interface CreateOptions {
+  recipient?: string;
+  amount?: string;
+  duration?: string;
+  "coin-type"?: string;
+}
+
+async function create(ctx: Context, opts: CreateOptions) {
+  const input = requireString(opts.recipient, "recipient");
+  const recipient = await new NameResolver(ctx.client).addressOf(input);
+  if (!recipient) {
+    throw new UsageError(
+      `${input} is not an address or a registered SuiNS name`,
+    );
+  }
+  const coinType = opts["coin-type"] ?? SUI_COIN_TYPE;
+  const durationMinutes = Number(requireString(opts.duration, "duration"));
+  const { decimals } = await ctx.timeDeposits.getCoinInfo(coinType);
+  const parsed = parseAmount(requireString(opts.amount, "amount"), decimals);
+  if (!parsed.ok) throw new UsageError(parsed.error);
+  const amount = parsed.amount;
+
+  const sender = (await ctx.signer()).toSuiAddress();
+  const problems = validateDeposit(
+    { recipient, amount, durationMinutes },
+    sender,
+  );
+  if (problems.length > 0) throw new UsageError(problems.join("\n"));
+
+  const tx = ctx.timeDeposits.createDeposit({
+    recipient,
+    amount,
+    durationMinutes,
+    coinType,
+  });
+  const result = await run(ctx, tx);
+  if (result.dryRun) {
+    return printDryRun(ctx, result.preflight);
+  }
+  const [depositId] = createdDepositIds(result.receipt);
+  print(
+    ctx,
+    { digest: result.receipt.digest, depositId },
+    `Created deposit ${depositId} (tx ${result.receipt.digest})`,
+  );
+}
+
+async function list(ctx: Context, address: string) {
+  const state = await syncDepositEvents(ctx.timeDeposits, new MemoryEventStore());
+  const deposits = new DepositIndex(state.events).activeDepositsFor(address);
+  const statuses = await ctx.timeDeposits.inspectDeposits(deposits);
+  const rows = deposits.map((d) => ({
+    ...d,
+    role: d.depositor === address ? "depositor" : "recipient",
+    unlocked: statuses.get(d.objectId)?.canRecipientWithdraw ?? null,
+  }));
+
+  const lines = await Promise.all(
+    rows.map(
+      async (r) =>
+        `${r.objectId}  ${(await formatAmount(ctx, r.balance, r.coinType)).padEnd(18)}  ${r.role.padEnd(9)}  ${
+          r.unlocked === null ? "unknown " : r.unlocked ? "unlocked" : "locked  "
+        }  ${new Date(r.unlockTime).toISOString()}`,
+    ),
+  );
+  print(ctx, rows, lines.join("\n") || "No deposits");
+}
+
+async function info(ctx: Context, id: string) {
+  const deposit = await ctx.timeDeposits.getDeposit(id);
+  if (!deposit) throw new Error(`${id} is not a live TimeDeposit`);
+  // Statuses are keyed by the normalized ID, not `id` as typed.
+  const status = (await ctx.timeDeposits.inspectDeposits([deposit])).get(
+    deposit.objectId,
+  );
+  const value = status ?? deposit;
+  print(
+    ctx,
+    value,
+    [
+      `Deposit     ${deposit.objectId}`,
+      `Coin type   ${deposit.coinType}`,
+      `Amount      ${await formatAmount(ctx, deposit.balance, deposit.coinType)}`,
+      `Depositor   ${deposit.depositor}`,
+      `Recipient   ${deposit.recipient}`,
+      `Start       ${new Date(deposit.startTime).toISOString()}`,
+      `Unlock      ${new Date(deposit.unlockTime).toISOString()}`,
+      status
+        ? `Status      ${status.canRecipientWithdraw ? "unlocked" : `locked, ${Math.ceil(status.timeUntilUnlock / 60_000)} min left`}`
+        : "Status      unknown",
+    ].join("\n"),
+  );
+}
+
+async function withdraw(ctx: Context, id: string, as: string | undefined) {
+  const deposit = await ctx.timeDeposits.getDeposit(id);
+  if (!deposit) throw new Error(`${id} is not a live TimeDeposit`);
+  const sender = (await ctx.signer()).toSuiAddress();
+  const role =
+    as ?? (deposit.depositor === sender ? "depositor" : "recipient");
+  if (role !== "depositor" && role !== "recipient") {
+    throw new UsageError("--as must be depositor or recipient");
+  }
+
+  const params = { depositId: id, coinType: deposit.coinType };
+  const tx =
+    role === "depositor"
+      ? ctx.timeDeposits.withdrawByDepositor(params)
+      : ctx.timeDeposits.withdrawByRecipient(params);
+  const result = await run(ctx, tx);
+  if (result.dryRun) {
+    return printDryRun(ctx, result.preflight);
+  }
+  print(
+    ctx,
+    { digest: result.receipt.digest, role },
+    `Withdrew ${id} as ${role} (tx ${result.receipt.digest})`,
+  );
+}
+
+async function claimAll(ctx: Context) {
+  const address = (await ctx.signer()).toSuiAddress();
+  const state = await syncDepositEvents(ctx.timeDeposits, new MemoryEventStore());
+  const incoming = new DepositIndex(state.events)
+    .activeDepositsFor(address)
+    .filter((d) => d.recipient === address);
+  const statuses = await ctx.timeDeposits.inspectDeposits(incoming);
+  const claimable = incoming.filter(
+    (d) => statuses.get(d.objectId)?.canRecipientWithdraw,
+  );
+  if (claimable.length === 0) {
+    return print(ctx, { claimed: [] }, "Nothing to claim");
+  }
+
+  const batches = ctx.timeDeposits.withdrawAllByRecipientBatches(
+    claimable.map((d) => ({ depositId: d.objectId, coinType: d.coinType })),
+  );
+  const digests: string[] = [];
+  const totals = new Map<string, bigint>();
+  for (const tx of batches) {
+    const result = await run(ctx, tx);
+    if (result.dryRun) continue;
+    digests.push(result.receipt.digest);
+    for (const [type, amount] of sumWithdrawals(result.receipt.events ?? [])) {
+      totals.set(type, (totals.get(type) ?? 0n) + amount);
+    }
+  }
+  if (ctx.dryRun) {
+    return print(
+      ctx,
+      { claimable: claimable.map((d) => d.objectId) },
+      `Dry run OK, ${claimable.length} deposits claimable`,
+    );
+  }
+  const lines = await Promise.all(
+    [...totals].map(([type, amount]) => formatAmount(ctx, amount, type)),
+  );
+  print(
+    ctx,
+    { digests, totals: Object.fromEntries(totals) },
+    `Claimed ${claimable.length} deposits:\n${lines.join("\n")}`,
+  );
+}
+
+// ----------------
+// Entry point
+// ----------------
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      network: { type: "string", default: "testnet" },
+      package: { type: "string" },
+      keystore: { type: "string" },
+      address: { type: "string" },
+      recipient: { type: "string" },
+      amount: { type: "string" },
+      duration: { type: "string" },
+      "coin-type": { type: "string" },
+      as: { type: "string" },
+      json: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, arg] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : EXIT_USAGE;
+  }
+
+  const network = values.network as Network;
+  if (!NETWORKS.includes(network)) {
+    throw new UsageError(`Unknown network ${values.network}`);
+  }
+  const packageVersions = parsePackageVersions(
+    values.package ??
+      process.env.TIMELOCK_PACKAGE_ID ??
+      (network === "testnet" ? DEFAULT_PACKAGE_ID : undefined),
+  );
+  const packageId = packageVersions.at(-1);
+  if (!packageId) {
+    throw new UsageError(`No package ID for ${network}; pass --package`);
+  }
+
+  const client = new SuiClient({ url: getFullnodeUrl(network) });
+  let signer: Promise<Keypair> | undefined;
+  const ctx: Context = {
+    client,
+    timeDeposits: new TimeDepositClient({ client, packageId, packageVersions }),
+    json: values.json,
+    dryRun: values["dry-run"],
+    signer: () =>
+      (signer ??= loadSigner({
+        keystore: values.keystore,
+        address: values.address,
+      })),
+  };
+
+  switch (command) {
+    case "create":
+      await create(ctx, values);
+      break;
+    case "list":
+      await list(
+        ctx,
+        values.address
+          ? normalizeSuiAddress(values.address)
+          : (await ctx.signer()).toSuiAddress(),
+      );
+      break;
+    case "info":
+      await info(ctx, requireString(arg, "deposit-id argument"));
+      break;
+    case "withdraw":
+      await withdraw(ctx, requireString(arg, "deposit-id argument"), values.as);
+      break;
+    case "claim-all":
+      await claimAll(ctx);
+      break;
+    default:
+      throw new UsageError(`Unknown command ${command}`);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (e: unknown) => {
+    const abort = decodeAbort(e);
+    console.error(`timelock: ${describeError(e)}`);
+    const parseError =
+      typeof e === "object" &&
+      e !== null &&
+      "code" in e &&
+      String(e.code).startsWith("ERR_PARSE_ARGS");
+    if (e instanceof UsageError || parseError) {
+      console.error("Run `timelock --help` for usage.");
+      process.exit(EXIT_USAGE);
+    }
+    process.exit(abort ? ABORT_EXIT_BASE + abort.code : EXIT_ERROR);
+  },
+);
@@ -20,4 +20,10 @@ export default tseslint.config([
       globals: globals.browser,
     },
   },
+  {
+    files: ['cli/**/*.ts', 'indexer/**/*.ts', 'sponsor/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
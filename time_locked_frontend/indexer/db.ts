@@ -0,0 +1,283 @@
+import { DatabaseSync } from "node:sqlite";
+import type { EventId } from "@mysten/sui/client";
+import {
+  WithdrawnBy,
+  type DepositEvent,
+  type DepositLifecycle,
+  type DepositQuery,
+  type DepositRecord,
+  type IndexerStats,
+} from "../src/sdk/index.ts";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS deposits (
+  deposit_id          TEXT PRIMARY KEY,
+  coin_type           TEXT NOT NULL,
+  depositor           TEXT NOT NULL,
+  recipient           TEXT NOT NULL,
+  amount              TEXT NOT NULL,
+  start_time          INTEGER NOT NULL,
+  duration            INTEGER NOT NULL,
+  unlock_time         INTEGER NOT NULL,
+  status              TEXT NOT NULL DEFAULT 'active',
+  created_tx          TEXT NOT NULL,
+  created_event_seq   TEXT NOT NULL,
+  created_at          INTEGER,
+  withdrawer          TEXT,
+  withdraw_time       INTEGER,
+  amount_withdrawn    TEXT,
+  withdrawn_by        INTEGER,
+  withdrawn_tx        TEXT,
+  withdrawn_event_seq TEXT,
+  withdrawn_at        INTEGER
+);
+CREATE INDEX IF NOT EXISTS deposits_depositor ON deposits (depositor);
+CREATE INDEX IF NOT EXISTS deposits_recipient ON deposits (recipient);
+CREATE INDEX IF NOT EXISTS deposits_status ON deposits (status);
+
+-- Withdrawals seen before their creation event (only possible if events
+-- arrive out of order); applied once the deposit row exists.
+CREATE TABLE IF NOT EXISTS orphan_withdrawals (
+  deposit_id TEXT PRIMARY KEY,
+  event      TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS cursor (
+  id         INTEGER PRIMARY KEY CHECK (id = 0),
+  tx_digest  TEXT NOT NULL,
+  event_seq  TEXT NOT NULL
+);
+`;
+
+const MAX_LIMIT = 1000;
+const DEFAULT_LIMIT = 100;
+
+type Row = Record<string, string | number | null>;
+
+function toRecord(row: Row): DepositRecord {
+  return {
+    depositId: row.deposit_id as string,
+    coinType: row.coin_type as string,
+    depositor: row.depositor as string,
+    recipient: row.recipient as string,
+    amount: row.amount as string,
+    startTime: row.start_time as number,
+    duration: row.duration as number,
+    unlockTime: row.unlock_time as number,
+    status: row.status as DepositLifecycle,
+    createdTx: row.created_tx as string,
+    createdEventSeq: row.created_event_seq as string,
+    createdAt: row.created_at as number | null,
+    withdrawer: row.withdrawer as string | null,
+    withdrawTime: row.withdraw_time as number | null,
+    amountWithdrawn: row.amount_withdrawn as string | null,
+    withdrawnBy: row.withdrawn_by as WithdrawnBy | null,
+    withdrawnTx: row.withdrawn_tx as string | null,
+    withdrawnEventSeq: row.withdrawn_event_seq as string | null,
+    withdrawnAt: row.withdrawn_at as number | null,
+  };
+}
+
+/** SQLite storage for indexed deposits and the event cursor. */
+export class DepositDb {
+  private db: DatabaseSync;
+
+  /** `path` of `:memory:` gives a throwaway database, e.g. for tests. */
+  constructor(path: string) {
+    this.db = new DatabaseSync(path);
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getCursor(): EventId | null {
+    const row = this.db
+      .prepare("SELECT tx_digest, event_seq FROM cursor WHERE id = 0")
+      .get() as Row | undefined;
+    return row
+      ? { txDigest: row.tx_digest as string, eventSeq: row.event_seq as string }
+      : null;
+  }
+
+  /**
+   * Applies a page of events and advances the cursor in one SQLite
+   * transaction, so a crash never leaves the two out of step. Re-applying
+   * a page is harmless.
+   */
+  applyEvents(events: DepositEvent[], cursor: EventId | null) {
+    this.db.exec("BEGIN");
+    try {
+      for (const ev of events) {
+        if (ev.kind === "DepositCreated") this.insertCreated(ev);
+        else this.applyWithdrawn(ev);
+      }
+      if (cursor) {
+        this.db
+          .prepare(
+            `INSERT INTO cursor (id, tx_digest, event_seq) VALUES (0, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+               tx_digest = excluded.tx_digest, event_seq = excluded.event_seq`,
+          )
+          .run(cursor.txDigest, cursor.eventSeq);
+      }
+      this.db.exec("COMMIT");
+    } catch (e) {
+      this.db.exec("ROLLBACK");
+      throw e;
+    }
+  }
+
+  private insertCreated(ev: Extract<DepositEvent, { kind: "DepositCreated" }>) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO deposits (
+           deposit_id, coin_type, depositor, recipient, amount, start_time,
+           duration, unlock_time, created_tx, created_event_seq, created_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        ev.depositId,
+        ev.coinType,
+        ev.depositor,
+        ev.recipient,
+        ev.amount.toString(),
+        ev.startTime,
+        ev.duration,
+        ev.unlockTime,
+        ev.txDigest,
+        ev.eventSeq,
+        ev.timestampMs,
+      );
+    const orphan = this.db
+      .prepare("SELECT event FROM orphan_withdrawals WHERE deposit_id = ?")
+      .get(ev.depositId) as Row | undefined;
+    if (orphan) {
+      const parsed = JSON.parse(orphan.event as string);
+      this.applyWithdrawn({
+        ...parsed,
+        amountWithdrawn: BigInt(parsed.amountWithdrawn),
+      });
+      this.db
+        .prepare("DELETE FROM orphan_withdrawals WHERE deposit_id = ?")
+        .run(ev.depositId);
+    }
+  }
+
+  private applyWithdrawn(
+    ev: Extract<DepositEvent, { kind: "DepositWithdrawn" }>,
+  ) {
+    const status: DepositLifecycle =
+      ev.withdrawnBy === WithdrawnBy.Depositor ? "cancelled" : "claimed";
+    const { changes } = this.db
+      .prepare(
+        `UPDATE deposits SET
+           status = ?, withdrawer = ?, withdraw_time = ?, amount_withdrawn = ?,
+           withdrawn_by = ?, withdrawn_tx = ?, withdrawn_event_seq = ?,
+           withdrawn_at = ?
+         WHERE deposit_id = ?`,
+      )
+      .run(
+        status,
+        ev.withdrawer,
+        ev.withdrawTime,
+        ev.amountWithdrawn.toString(),
+        ev.withdrawnBy,
+        ev.txDigest,
+        ev.eventSeq,
+        ev.timestampMs,
+        ev.depositId,
+      );
+    if (changes === 0) {
+      this.db
+        .prepare(
+          "INSERT OR REPLACE INTO orphan_withdrawals (deposit_id, event) VALUES (?, ?)",
+        )
+        .run(
+          ev.depositId,
+          JSON.stringify({ ...ev, amountWithdrawn: ev.amountWithdrawn.toString() }),
+        );
+    }
+  }
+
+  getDeposit(id: string): DepositRecord | null {
+    const row = this.db
+      .prepare("SELECT * FROM deposits WHERE deposit_id = ?")
+      .get(id) as Row | undefined;
+    return row ? toRecord(row) : null;
+  }
+
+  /** Newest first. */
+  queryDeposits(query: DepositQuery = {}): DepositRecord[] {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.depositor) {
+      where.push("depositor = ?");
+      params.push(query.depositor);
+    }
+    if (query.recipient) {
+      where.push("recipient = ?");
+      params.push(query.recipient);
+    }
+    if (query.address) {
+      where.push("(depositor = ? OR recipient = ?)");
+      params.push(query.address, query.address);
+    }
+    if (query.status) {
+      where.push("status = ?");
+      params.push(query.status);
+    }
+    if (query.coinType) {
+      where.push("coin_type = ?");
+      params.push(query.coinType);
+    }
+    const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+    params.push(limit, query.offset ?? 0);
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM deposits
+         ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+         ORDER BY start_time DESC, deposit_id
+         LIMIT ? OFFSET ?`,
+      )
+      .all(...params) as Row[];
+    return rows.map(toRecord);
+  }
+
+  stats(): IndexerStats {
+    const deposits: IndexerStats["deposits"] = {
+      active: 0,
+      cancelled: 0,
+      claimed: 0,
+    };
+    for (const row of this.db
+      .prepare("SELECT status, COUNT(*) AS n FROM deposits GROUP BY status")
+      .all() as Row[]) {
+      deposits[row.status as DepositLifecycle] = row.n as number;
+    }
+
+    // u64 sums can overflow SQLite's i64, so add them up as bigints.
+    const locked = new Map<string, bigint>();
+    for (const row of this.db
+      .prepare("SELECT coin_type, amount FROM deposits WHERE status = 'active'")
+      .all() as Row[]) {
+      const type = row.coin_type as string;
+      locked.set(type, (locked.get(type) ?? 0n) + BigInt(row.amount as string));
+    }
+
+    const count = (sql: string) =>
+      (this.db.prepare(sql).get() as Row).n as number;
+    return {
+      deposits,
+      lockedByCoinType: Object.fromEntries(
+        [...locked].map(([type, amount]) => [type, amount.toString()]),
+      ),
+      depositors: count("SELECT COUNT(DISTINCT depositor) AS n FROM deposits"),
+      recipients: count("SELECT COUNT(DISTINCT recipient) AS n FROM deposits"),
+      cursor: this.getCursor(),
+    };
+  }
+}
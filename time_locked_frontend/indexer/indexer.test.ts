@@ -0,0 +1,152 @@
+import { getEventListeners } from "node:events";
+import type { AddressInfo } from "node:net";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { IndexerClient, SUI_COIN_TYPE, normalizeCoinType } from "../src/sdk/index.ts";
+import type { DepositDb } from "./db.ts";
+import { FixtureEventSource, Indexer } from "./indexer.ts";
+import { createApiServer, route } from "./server.ts";
+
+// `node:sqlite` needs Node 22.13+, like the indexer itself; skip on older Nodes.
+const dbModule = await import("./db.ts").catch(() => null);
+
+const FIXTURES = fileURLToPath(new URL("fixtures/events.json", import.meta.url));
+
+const alice = normalizeSuiAddress("0xa11ce");
+const bob = normalizeSuiAddress("0xb0b");
+const carol = normalizeSuiAddress("0xca201");
+const id = (n: number) => normalizeSuiAddress(`0xd${n}`);
+const SUI = normalizeCoinType(SUI_COIN_TYPE);
+
+let db: DepositDb;
+let source: FixtureEventSource;
+
+beforeEach(async () => {
+  db = new dbModule!.DepositDb(":memory:");
+  source = await FixtureEventSource.fromFile(FIXTURES);
+});
+
+afterEach(() => db.close());
+
+describe.skipIf(!dbModule)("Indexer", () => {
+  it("indexes every fixture page and stores the cursor", async () => {
+    expect(await new Indexer(source, db).poll()).toBe(6);
+    expect(db.getCursor()).toEqual({
+      txDigest: "6rTd2Vq9LmP4wX8yZ1aB3cD5eF7gH9jK2mN4pQ6sU8vW",
+      eventSeq: "1",
+    });
+  });
+
+  it("resumes from the stored cursor without re-applying events", async () => {
+    await new Indexer(source, db).poll();
+    expect(await new Indexer(source, db).poll()).toBe(0);
+    expect(db.queryDeposits()).toHaveLength(4);
+  });
+
+  it("tracks each deposit's lifecycle", async () => {
+    await new Indexer(source, db).poll();
+    expect(db.getDeposit(id(1))?.status).toBe("active");
+    expect(db.getDeposit(id(2))).toMatchObject({
+      status: "cancelled",
+      withdrawer: alice,
+      amountWithdrawn: "500000000",
+    });
+    expect(db.getDeposit(id(3))).toMatchObject({
+      status: "claimed",
+      withdrawer: carol,
+    });
+  });
+
+  it("applies a withdrawal seen before its creation", async () => {
+    const first = await source.queryDepositEvents();
+    const second = await source.queryDepositEvents({ cursor: first.nextCursor });
+    const cancel = second.data.find((ev) => ev.depositId === id(2))!;
+    const create = first.data.find((ev) => ev.depositId === id(2))!;
+
+    db.applyEvents([cancel], null);
+    expect(db.getDeposit(id(2))).toBeNull();
+    db.applyEvents([create], null);
+    expect(db.getDeposit(id(2))?.status).toBe("cancelled");
+  });
+
+  it("polls until aborted without piling up abort listeners", async () => {
+    const controller = new AbortController();
+    const listeners: number[] = [];
+    const counting = {
+      queryDepositEvents: (params?: Parameters<typeof source.queryDepositEvents>[0]) => {
+        listeners.push(getEventListeners(controller.signal, "abort").length);
+        if (listeners.length === 15) controller.abort();
+        return source.queryDepositEvents(params);
+      },
+    };
+    await new Indexer(counting, db).run(1, controller.signal);
+    expect(listeners).toHaveLength(15);
+    expect(Math.max(...listeners)).toBe(0);
+  });
+});
+
+describe.skipIf(!dbModule)("REST API", () => {
+  let client: IndexerClient;
+  let close: () => void;
+
+  beforeEach(async () => {
+    await new Indexer(source, db).poll();
+    const server = createApiServer(db).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new IndexerClient(`http://127.0.0.1:${port}`);
+    close = () => server.close();
+  });
+
+  afterEach(() => close());
+
+  it("filters deposits", async () => {
+    const byAlice = await client.getDeposits({ depositor: alice });
+    expect(byAlice.map((d) => d.depositId).sort()).toEqual([id(1), id(2)]);
+
+    const active = await client.getDeposits({ status: "active", coinType: "0x2::sui::SUI" });
+    expect(active.map((d) => d.depositId).sort()).toEqual([id(1), id(4)]);
+
+    const forCarol = await client.getDeposits({ address: carol });
+    expect(forCarol).toHaveLength(2);
+  });
+
+  it("returns one deposit, or null when unknown", async () => {
+    expect((await client.getDeposit(id(4)))?.recipient).toBe(alice);
+    expect(await client.getDeposit(id(9))).toBeNull();
+  });
+
+  it("reports stats", async () => {
+    const stats = await client.getStats();
+    expect(stats.deposits).toEqual({ active: 2, cancelled: 1, claimed: 1 });
+    expect(stats.lockedByCoinType).toEqual({ [SUI]: "3500000000" });
+    expect(stats.depositors).toBe(3);
+  });
+
+  it("rebuilds history entries for an address", async () => {
+    const history = await client.historyFor(bob);
+    expect(history.map((h) => [h.created.depositId, h.status])).toEqual(
+      expect.arrayContaining([
+        [id(1), "active"],
+        [id(2), "cancelled"],
+        [id(3), "claimed"],
+      ]),
+    );
+    expect(history.find((h) => h.status === "cancelled")?.withdrawn?.amountWithdrawn)
+      .toBe(500000000n);
+  });
+
+  it("rejects bad query parameters", async () => {
+    await expect(client.getDeposits({ limit: -1 })).rejects.toThrow(/limit/);
+    await expect(client.getDeposits({ limit: -1 })).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it("answers malformed deposit IDs with 400", () => {
+    expect(() =>
+      route(db, "GET", new URL("http://indexer/deposits/%E0%A4%A")),
+    ).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
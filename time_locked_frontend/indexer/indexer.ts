@@ -0,0 +1,100 @@
+import { readFile } from "node:fs/promises";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { EventId, PaginatedEvents } from "@mysten/sui/client";
+import {
+  parseDepositEvent,
+  type DepositEvent,
+  type Page,
+  type TimeDepositClient,
+} from "../src/sdk/index.ts";
+import type { DepositDb } from "./db.ts";
+
+/** Page size per poll; the fullnode caps it at 50. */
+const PAGE_SIZE = 50;
+
+/** Where module events come from: a fullnode, or recorded fixtures. */
+export type EventSource = Pick<TimeDepositClient, "queryDepositEvents">;
+
+/**
+ * Replays `queryEvents` responses recorded to a JSON file, for tests and
+ * offline runs. The file holds an array of `PaginatedEvents` pages in
+ * ascending order; cursors are matched against each page's `nextCursor`.
+ */
+export class FixtureEventSource implements EventSource {
+  private pages: PaginatedEvents[];
+
+  constructor(pages: PaginatedEvents[]) {
+    this.pages = pages;
+  }
+
+  static async fromFile(path: string): Promise<FixtureEventSource> {
+    return new FixtureEventSource(JSON.parse(await readFile(path, "utf8")));
+  }
+
+  async queryDepositEvents({
+    cursor = null,
+  }: { cursor?: EventId | null } = {}): Promise<Page<DepositEvent, EventId>> {
+    const index = cursor
+      ? this.pages.findIndex(
+          (p) =>
+            p.nextCursor?.txDigest === cursor.txDigest &&
+            p.nextCursor.eventSeq === cursor.eventSeq,
+        ) + 1
+      : 0;
+    const page = this.pages[index];
+    if (!page) return { data: [], nextCursor: cursor, hasNextPage: false };
+    return {
+      data: page.data
+        .map(parseDepositEvent)
+        .filter((ev): ev is DepositEvent => ev !== null),
+      nextCursor: page.nextCursor ?? null,
+      hasNextPage: index + 1 < this.pages.length,
+    };
+  }
+}
+
+/**
+ * Tails module events into the database, resuming from the stored cursor.
+ * Each page is committed together with its cursor.
+ */
+export class Indexer {
+  private source: EventSource;
+  private db: DepositDb;
+
+  constructor(source: EventSource, db: DepositDb) {
+    this.source = source;
+    this.db = db;
+  }
+
+  /** Catches up to the chain head. Returns how many events were applied. */
+  async poll(): Promise<number> {
+    let applied = 0;
+    for (;;) {
+      const cursor = this.db.getCursor();
+      const page = await this.source.queryDepositEvents({
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      const nextCursor = page.nextCursor ?? cursor;
+      if (page.data.length > 0 || nextCursor !== cursor) {
+        this.db.applyEvents(page.data, nextCursor);
+        applied += page.data.length;
+      }
+      if (!page.hasNextPage) return applied;
+    }
+  }
+
+  /** Polls every `intervalMs` until `signal` aborts. Errors are logged. */
+  async run(intervalMs: number, signal: AbortSignal) {
+    while (!signal.aborted) {
+      try {
+        const applied = await this.poll();
+        if (applied > 0) console.log(`indexed ${applied} events`);
+      } catch (e) {
+        console.error("poll failed:", e);
+      }
+      // Rejects with an AbortError when `signal` aborts, which ends the loop.
+      await sleep(intervalMs, undefined, { signal }).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { parseArgs } from "node:util";
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import {
+  DEFAULT_PACKAGE_ID,
+  TimeDepositClient,
+  parsePackageVersions,
+} from "../src/sdk/index.ts";
+import { FixtureEventSource, Indexer, type EventSource } from "./indexer.ts";
+import { createApiServer } from "./server.ts";
+
+const { values } = parseArgs({
+  options: {
+    network: { type: "string", default: process.env.INDEXER_NETWORK ?? "testnet" },
+    package: { type: "string", default: process.env.INDEXER_PACKAGE_ID },
+    rpc: { type: "string", default: process.env.INDEXER_RPC_URL },
+    db: { type: "string", default: process.env.INDEXER_DB ?? "deposits.sqlite" },
+    port: { type: "string", default: process.env.INDEXER_PORT ?? "4000" },
+    interval: { type: "string", default: process.env.INDEXER_POLL_MS ?? "5000" },
+    fixtures: { type: "string" },
+  },
+});
+
+// `node:sqlite` works unflagged from Node 22.13; check before ./db.ts loads it.
+const [major, minor] = process.versions.node.split(".").map(Number);
+if (major < 22 || (major === 22 && minor < 13)) {
+  console.error(
+    `The indexer needs Node 22.13 or later for node:sqlite; this is ${process.version}`,
+  );
+  process.exit(2);
+}
+const { DepositDb } = await import("./db.ts");
+
+const db = new DepositDb(values.db);
+let source: EventSource;
+if (values.fixtures) {
+  source = await FixtureEventSource.fromFile(values.fixtures);
+} else {
+  const network = values.network as Parameters<typeof getFullnodeUrl>[0];
+  const packageVersions = parsePackageVersions(
+    values.package ?? (network === "testnet" ? DEFAULT_PACKAGE_ID : undefined),
+  );
+  const packageId = packageVersions.at(-1);
+  if (!packageId) {
+    console.error(`No package ID for ${network}; pass --package`);
+    process.exit(2);
+  }
+  const client = new SuiClient({ url: values.rpc ?? getFullnodeUrl(network) });
+  source = new TimeDepositClient({ client, packageId, packageVersions });
+}
+
+const controller = new AbortController();
+const indexer = new Indexer(source, db);
+const server = createApiServer(db).listen(Number(values.port), () =>
+  console.log(`indexer API on http://localhost:${values.port}`),
+);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    controller.abort();
+    server.close();
+  });
+}
+
+await indexer.run(Number(values.interval), controller.signal);
+db.close();
@@ -0,0 +1,98 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  normalizeCoinType,
+  type DepositLifecycle,
+  type DepositQuery,
+} from "../src/sdk/index.ts";
+import type { DepositDb } from "./db.ts";
+
+const STATUSES: DepositLifecycle[] = ["active", "cancelled", "claimed"];
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function parseQuery(params: URLSearchParams): DepositQuery {
+  const address = (name: string) => {
+    const value = params.get(name);
+    return value ? normalizeSuiAddress(value) : undefined;
+  };
+  const int = (name: string) => {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 0) {
+      throw new HttpError(400, `${name} must be a non-negative integer`);
+    }
+    return n;
+  };
+
+  const status = params.get("status") ?? undefined;
+  if (status && !STATUSES.includes(status as DepositLifecycle)) {
+    throw new HttpError(400, `status must be one of ${STATUSES.join(", ")}`);
+  }
+  const coinType = params.get("coinType");
+  return {
+    depositor: address("depositor"),
+    recipient: address("recipient"),
+    address: address("address"),
+    status: status as DepositLifecycle | undefined,
+    coinType: coinType ? normalizeCoinType(coinType) : undefined,
+    limit: int("limit"),
+    offset: int("offset"),
+  };
+}
+
+/** Routes a request to the database; returns the JSON body. */
+export function route(db: DepositDb, method: string, url: URL): unknown {
+  if (method !== "GET") throw new HttpError(405, "Method not allowed");
+  if (url.pathname === "/deposits") {
+    return db.queryDeposits(parseQuery(url.searchParams));
+  }
+  const match = /^\/deposits\/([^/]+)$/.exec(url.pathname);
+  if (match) {
+    let id: string;
+    try {
+      id = decodeURIComponent(match[1]);
+    } catch {
+      throw new HttpError(400, "Malformed deposit ID");
+    }
+    const deposit = db.getDeposit(normalizeSuiAddress(id));
+    if (!deposit) throw new HttpError(404, "Deposit not found");
+    return deposit;
+  }
+  if (url.pathname === "/stats") return db.stats();
+  if (url.pathname === "/health") return { ok: true };
+  throw new HttpError(404, "Not found");
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The UI is served from another origin.
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+export function createApiServer(db: DepositDb) {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      send(res, 200, route(db, req.method ?? "GET", url));
+    } catch (e) {
+      if (e instanceof HttpError) {
+        send(res, e.status, { error: e.message });
+      } else {
+        console.error(e);
+        send(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,32 @@
+// Service worker for unlock reminders. The app decides when a deposit has
+// unlocked and calls `registration.showNotification`; this worker owns the
+// notifications, so they appear while the tab is in the background and a
+// click brings the user to the deposit's page.
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data && event.notification.data.url;
+  if (!url) return;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window" });
+      for (const client of windows) {
+        try {
+          await client.focus();
+          await client.navigate(url);
+          return;
+        } catch {
+          // Not controlled by this worker; try the next one.
+        }
+      }
+      await self.clients.openWindow(url);
+    })(),
+  );
+});
@@ -0,0 +1,85 @@
+import { parseArgs } from "node:util";
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import { getFaucetHost, requestSuiFromFaucetV2 } from "@mysten/sui/faucet";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import type { Keypair } from "@mysten/sui/cryptography";
+import { DEFAULT_PACKAGE_ID, parsePackageVersions } from "../src/sdk/index.ts";
+import { keypairFromString } from "../cli/keystore.ts";
+import { RateLimiter } from "./rateLimit.ts";
+import { Sponsor } from "./sponsor.ts";
+import { createSponsorServer } from "./server.ts";
+
+const { values } = parseArgs({
+  options: {
+    network: { type: "string", default: process.env.SPONSOR_NETWORK ?? "testnet" },
+    package: { type: "string", default: process.env.SPONSOR_PACKAGE_ID },
+    rpc: { type: "string", default: process.env.SPONSOR_RPC_URL },
+    port: { type: "string", default: process.env.SPONSOR_PORT ?? "4100" },
+    // Sponsored transactions per sender address per window.
+    limit: { type: "string", default: process.env.SPONSOR_RATE_LIMIT ?? "5" },
+    // Sponsorship requests per client IP per window; loose, as IPs are shared.
+    "ip-limit": {
+      type: "string",
+      default: process.env.SPONSOR_IP_RATE_LIMIT ?? "50",
+    },
+    window: { type: "string", default: process.env.SPONSOR_RATE_WINDOW_MS ?? "3600000" },
+    "max-gas": {
+      type: "string",
+      default: process.env.SPONSOR_MAX_GAS_BUDGET ?? "50000000",
+    },
+  },
+});
+
+const network = values.network as Parameters<typeof getFullnodeUrl>[0];
+const packageVersions = parsePackageVersions(
+  values.package ?? (network === "testnet" ? DEFAULT_PACKAGE_ID : undefined),
+);
+if (packageVersions.length === 0) {
+  console.error(`No package ID for ${network}; pass --package`);
+  process.exit(2);
+}
+const client = new SuiClient({ url: values.rpc ?? getFullnodeUrl(network) });
+
+let signer: Keypair;
+if (process.env.SPONSOR_PRIVATE_KEY) {
+  signer = keypairFromString(process.env.SPONSOR_PRIVATE_KEY);
+} else if (network === "mainnet") {
+  console.error("Set SPONSOR_PRIVATE_KEY to the sponsor's funded key");
+  process.exit(2);
+} else {
+  // A throwaway test key, funded from the network's faucet.
+  signer = new Ed25519Keypair();
+  console.log(`test sponsor key; set SPONSOR_PRIVATE_KEY=${signer.getSecretKey()} to reuse it`);
+  const res = await requestSuiFromFaucetV2({
+    host: getFaucetHost(network),
+    recipient: signer.toSuiAddress(),
+  });
+  if (res.status !== "Success") {
+    console.error("Faucet request failed:", res.status);
+    process.exit(1);
+  }
+}
+
+const sponsor = new Sponsor({
+  client,
+  signer,
+  packageVersions,
+  ipLimiter: new RateLimiter({
+    limit: Number(values["ip-limit"]),
+    windowMs: Number(values.window),
+  }),
+  senderLimiter: new RateLimiter({
+    limit: Number(values.limit),
+    windowMs: Number(values.window),
+  }),
+  maxGasBudget: BigInt(values["max-gas"]),
+});
+const server = createSponsorServer(sponsor).listen(Number(values.port), () =>
+  console.log(
+    `sponsor ${sponsor.address} on http://localhost:${values.port}`,
+  ),
+);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => server.close());
+}
@@ -0,0 +1,38 @@
+export interface RateLimitOptions {
+  /** Requests allowed per key in any window. */
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+/** Sliding-window limit per key, kept in memory. */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private readonly now: () => number;
+
+  constructor({ limit, windowMs, now = Date.now }: RateLimitOptions) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+    this.now = now;
+  }
+
+  /**
+   * Counts a request for `key` if it's under the limit and returns 0;
+   * otherwise returns how many milliseconds until it would be.
+   */
+  take(key: string): number {
+    const now = this.now();
+    const recent = (this.hits.get(key) ?? []).filter(
+      (t) => t > now - this.windowMs,
+    );
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return recent[0] + this.windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+}
@@ -0,0 +1,93 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type {
+  SponsorExecuteRequest,
+  SponsorRequest,
+} from "../src/sdk/index.ts";
+import { SponsorRefusal, type Sponsor } from "./sponsor.ts";
+
+/** Larger bodies can't be a handful of claims. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+const CORS_HEADERS = {
+  // The UI is served from another origin.
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new SponsorRefusal(413, "Body too large");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new SponsorRefusal(400, "Body must be JSON");
+  }
+}
+
+const POST_ROUTES = new Set(["/sponsor", "/execute", "/release"]);
+
+/** Routes a request to the sponsor; returns the JSON body. */
+export async function route(
+  sponsor: Sponsor,
+  req: IncomingMessage,
+  url: URL,
+): Promise<unknown> {
+  if (url.pathname === "/health" && req.method === "GET") {
+    return { ok: true, address: sponsor.address };
+  }
+  if (!POST_ROUTES.has(url.pathname)) throw new SponsorRefusal(404, "Not found");
+  if (req.method !== "POST") throw new SponsorRefusal(405, "Method not allowed");
+  const body = (await readJson(req)) as Partial<
+    SponsorRequest & SponsorExecuteRequest
+  > | null;
+  if (url.pathname === "/sponsor") {
+    if (typeof body?.sender !== "string" || typeof body.transactionKind !== "string") {
+      throw new SponsorRefusal(400, "Expected { sender, transactionKind }");
+    }
+    // Rate limits go by IP: the sender is whatever the caller claims.
+    return sponsor.sponsor(
+      { sender: body.sender, transactionKind: body.transactionKind },
+      req.socket.remoteAddress ?? "",
+    );
+  }
+  if (typeof body?.bytes !== "string") {
+    throw new SponsorRefusal(400, "Expected { bytes }");
+  }
+  if (url.pathname === "/release") return sponsor.release(body.bytes);
+  if (typeof body.signature !== "string") {
+    throw new SponsorRefusal(400, "Expected { bytes, signature }");
+  }
+  return sponsor.execute({ bytes: body.bytes, signature: body.signature });
+}
+
+export function createSponsorServer(sponsor: Sponsor) {
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      send(res, 200, await route(sponsor, req, url));
+    } catch (e) {
+      if (e instanceof SponsorRefusal) {
+        send(res, e.status, { error: e.message });
+      } else {
+        console.error(e);
+        send(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
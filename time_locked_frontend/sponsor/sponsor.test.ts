@@ -0,0 +1,291 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Inputs, Transaction } from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  normalizeSuiAddress,
+  toBase64,
+} from "@mysten/sui/utils";
+import {
+  MODULE_NAME,
+  MS_PER_MINUTE,
+  SUI_COIN_TYPE,
+  TimeDepositClient,
+  createdDepositIds,
+} from "../src/sdk/index.ts";
+import { DepositSimulator } from "../src/demo/simulator.ts";
+import { SimulatorTransport } from "../src/demo/transport.ts";
+import { RateLimiter } from "./rateLimit.ts";
+import { createSponsorServer } from "./server.ts";
+import { Sponsor, sponsorshipViolation } from "./sponsor.ts";
+
+const V1 = normalizeSuiAddress("0x1a");
+const V2 = normalizeSuiAddress("0x2b");
+const OTHER = normalizeSuiAddress("0x3c");
+const bob = normalizeSuiAddress("0xb0b");
+
+/** `fn` on a deposit object, with inputs resolved so it builds offline. */
+function call(pkg: string, fn = "withdraw_by_recipient", tx = new Transaction()) {
+  tx.moveCall({
+    target: `${pkg}::${MODULE_NAME}::${fn}`,
+    typeArguments: [SUI_COIN_TYPE],
+    arguments: [
+      tx.object(
+        Inputs.SharedObjectRef({
+          objectId: normalizeSuiAddress("0xd1"),
+          initialSharedVersion: 1,
+          mutable: true,
+        }),
+      ),
+      tx.object.clock(),
+    ],
+  });
+  return tx;
+}
+
+async function kindOf(tx: Transaction): Promise<string> {
+  return toBase64(await tx.build({ onlyTransactionKind: true }));
+}
+
+describe("sponsorshipViolation", () => {
+  it("allows claims against any version of the package", () => {
+    const tx = call(V1, undefined, call(V2));
+    expect(sponsorshipViolation(tx.getData(), [V1, V2])).toBeNull();
+  });
+
+  it("refuses other calls, other packages and the gas coin", () => {
+    const versions = [V1, V2];
+    expect(sponsorshipViolation(new Transaction().getData(), versions)).toMatch(
+      /empty/,
+    );
+    expect(
+      sponsorshipViolation(call(V2, "withdraw_by_depositor").getData(), versions),
+    ).toMatch(/Only deposit::withdraw_by_recipient/);
+    expect(sponsorshipViolation(call(OTHER).getData(), versions)).toMatch(
+      /Only/,
+    );
+
+    const drain = call(V2);
+    drain.transferObjects([drain.gas], bob);
+    expect(sponsorshipViolation(drain.getData(), versions)).toMatch(/Only/);
+
+    const sneaky = new Transaction();
+    sneaky.moveCall({
+      target: `${V2}::${MODULE_NAME}::withdraw_by_recipient`,
+      arguments: [sneaky.gas],
+    });
+    expect(sponsorshipViolation(sneaky.getData(), versions)).toMatch(
+      /gas coin/,
+    );
+  });
+});
+
+describe("RateLimiter", () => {
+  it("allows `limit` requests per key in any window", () => {
+    let now = 0;
+    const limiter = new RateLimiter({ limit: 2, windowMs: 1_000, now: () => now });
+    expect(limiter.take("a")).toBe(0);
+    now = 400;
+    expect(limiter.take("a")).toBe(0);
+    expect(limiter.take("a")).toBe(600);
+    expect(limiter.take("b")).toBe(0);
+    now = 1_000;
+    expect(limiter.take("a")).toBe(0);
+    expect(limiter.take("a")).toBe(400);
+  });
+});
+
+describe("Sponsor", () => {
+  const SUI = 1_000_000_000n;
+  const depositor = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(1));
+  const recipient = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(2));
+  const other = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(3));
+
+  /**
+   * A chain with an unlocked deposit to each of `recipients`, who hold no
+   * SUI. `request(i)` asks to claim the `i`th as its recipient.
+   */
+  async function setup(
+    gasCoins: number,
+    recipients = [recipient],
+    senderLimit = 10,
+  ) {
+    const simulator = new DepositSimulator({ packageId: V1 });
+    const client = new SuiClient({ transport: new SimulatorTransport(simulator) });
+    const deposits = new TimeDepositClient({ client, packageId: V1 });
+    simulator.mint(depositor.toSuiAddress(), SUI_COIN_TYPE, 100n * SUI);
+    const create = deposits.createDeposits(
+      recipients.map((r) => ({
+        amount: 10n * SUI,
+        recipient: r.toSuiAddress(),
+        durationMinutes: 1,
+      })),
+    );
+    create.setSender(depositor.toSuiAddress());
+    const depositIds = createdDepositIds(
+      await client.signAndExecuteTransaction({
+        transaction: create,
+        signer: depositor,
+        options: { showObjectChanges: true },
+      }),
+    );
+    simulator.advanceClock(MS_PER_MINUTE);
+
+    const signer = new Ed25519Keypair();
+    for (let i = 0; i < gasCoins; i++) {
+      simulator.mint(signer.toSuiAddress(), SUI_COIN_TYPE, SUI);
+    }
+    const sponsor = new Sponsor({
+      client,
+      signer,
+      packageVersions: [V1],
+      ipLimiter: new RateLimiter({ limit: 10, windowMs: 60_000 }),
+      senderLimiter: new RateLimiter({ limit: senderLimit, windowMs: 60_000 }),
+      maxGasBudget: 50_000_000n,
+    });
+    const request = async (i = 0) => ({
+      sender: recipients[i].toSuiAddress(),
+      transactionKind: toBase64(
+        await deposits
+          .withdrawByRecipient({ depositId: depositIds[i] })
+          .build({ client, onlyTransactionKind: true }),
+      ),
+    });
+    /** Sponsors the `i`th claim and executes it with its sender's signature. */
+    const claim = async (i: number) => {
+      const { bytes } = await sponsor.sponsor(await request(i), "1.2.3.4");
+      const { signature } = await recipients[i].signTransaction(
+        fromBase64(bytes),
+      );
+      return sponsor.execute({ bytes, signature });
+    };
+    return { client, sponsor, request, claim };
+  }
+
+  it("co-signs and submits once the sender has signed", async () => {
+    const { client, sponsor, request } = await setup(1);
+    const { bytes } = await sponsor.sponsor(await request(), "1.2.3.4");
+
+    const forged = await new Ed25519Keypair().signTransaction(fromBase64(bytes));
+    await expect(
+      sponsor.execute({ bytes, signature: forged.signature }),
+    ).rejects.toMatchObject({ status: 400 });
+
+    const { signature } = await recipient.signTransaction(fromBase64(bytes));
+    const { digest } = await sponsor.execute({ bytes, signature });
+    const receipt = await client.getTransactionBlock({
+      digest,
+      options: { showEffects: true },
+    });
+    expect(receipt.effects?.status.status).toBe("success");
+    const { totalBalance } = await client.getBalance({
+      owner: recipient.toSuiAddress(),
+    });
+    expect(BigInt(totalBalance)).toBe(10n * SUI);
+    expect(sponsor.release(bytes)).toEqual({ released: false });
+  });
+
+  it("hands released gas coins out again", async () => {
+    const { sponsor, request } = await setup(1);
+    const { bytes } = await sponsor.sponsor(await request(), "1.2.3.4");
+    await expect(
+      sponsor.sponsor(await request(), "5.6.7.8"),
+    ).rejects.toMatchObject({ status: 503 });
+
+    expect(sponsor.release(bytes)).toEqual({ released: true });
+    const { signature } = await recipient.signTransaction(fromBase64(bytes));
+    await expect(sponsor.execute({ bytes, signature })).rejects.toMatchObject({
+      status: 409,
+    });
+    await sponsor.sponsor(await request(), "5.6.7.8");
+  });
+
+  it("limits each sender's co-signed transactions", async () => {
+    const { claim } = await setup(3, [recipient, recipient, other], 1);
+    await claim(0);
+    await expect(claim(1)).rejects.toMatchObject({ status: 429 });
+    await expect(claim(2)).resolves.toHaveProperty("digest");
+  });
+});
+
+describe("sponsor API", () => {
+  let server: ReturnType<typeof createSponsorServer>;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    // A sponsor with no gas coins: requests that pass every check end in 503.
+    const client = {
+      getCoins: async () => ({ data: [], hasNextPage: false, nextCursor: null }),
+    };
+    const sponsor = new Sponsor({
+      client: client as unknown as SuiClient,
+      signer: new Ed25519Keypair(),
+      packageVersions: [V1, V2],
+      ipLimiter: new RateLimiter({ limit: 1, windowMs: 60_000 }),
+      senderLimiter: new RateLimiter({ limit: 1, windowMs: 60_000 }),
+      maxGasBudget: 50_000_000n,
+    });
+    server = createSponsorServer(sponsor).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  const errorOf = async (res: Response) =>
+    ((await res.json()) as { error: string }).error;
+
+  const post = (body: unknown) =>
+    fetch(`${baseUrl}/sponsor`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("rejects malformed requests", async () => {
+    expect((await post({ sender: bob })).status).toBe(400);
+    expect(
+      (await post({ sender: "nope", transactionKind: await kindOf(call(V2)) }))
+        .status,
+    ).toBe(400);
+    expect((await post({ sender: bob, transactionKind: "%%%" })).status).toBe(
+      400,
+    );
+    expect((await fetch(`${baseUrl}/sponsor`)).status).toBe(405);
+  });
+
+  it("refuses transactions outside the policy", async () => {
+    const res = await post({
+      sender: bob,
+      transactionKind: await kindOf(call(OTHER)),
+    });
+    expect(res.status).toBe(403);
+    expect(await errorOf(res)).toMatch(/withdraw_by_recipient/);
+  });
+
+  it("rate-limits each client, whichever sender it names", async () => {
+    const transactionKind = await kindOf(call(V2));
+    expect((await post({ sender: bob, transactionKind })).status).toBe(503);
+    const limited = await post({ sender: bob, transactionKind });
+    expect(limited.status).toBe(429);
+    expect(await errorOf(limited)).toMatch(/try again in 1 min/);
+    const alice = normalizeSuiAddress("0xa11ce");
+    expect((await post({ sender: alice, transactionKind })).status).toBe(429);
+  });
+
+  it("rejects malformed executions and releases", async () => {
+    const postTo = (path: string, body: unknown) =>
+      fetch(`${baseUrl}${path}`, { method: "POST", body: JSON.stringify(body) });
+    expect((await postTo("/execute", { bytes: "AA==" })).status).toBe(400);
+    expect((await postTo("/release", {})).status).toBe(400);
+    const unknown = await postTo("/execute", { bytes: "AA==", signature: "x" });
+    expect(unknown.status).toBe(409);
+    expect(await (await postTo("/release", { bytes: "AA==" })).json()).toEqual({
+      released: false,
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import type { SuiClient } from "@mysten/sui/client";
+import type { Keypair } from "@mysten/sui/cryptography";
+import {
+  Transaction,
+  TransactionDataBuilder,
+  type TransactionData,
+} from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  isValidSuiAddress,
+  normalizeSuiAddress,
+  normalizeSuiObjectId,
+  toBase64,
+} from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import {
+  MAX_DEPOSITS_PER_TRANSACTION,
+  MODULE_NAME,
+  SUI_COIN_TYPE,
+  describeError,
+  type SponsorExecuteRequest,
+  type SponsorRequest,
+  type SponsoredTransaction,
+} from "../src/sdk/index.ts";
+import type { RateLimiter } from "./rateLimit.ts";
+
+/** The one entry point this sponsor pays for. */
+const SPONSORED_FUNCTION = "withdraw_by_recipient";
+/** How long a gas coin stays set aside for a transaction we built. */
+const GAS_RESERVATION_MS = 60_000;
+
+interface GasReservation {
+  /** When the coin may be used for another transaction. */
+  until: number;
+  /** Digest of the transaction the coin pays for, once built. */
+  digest: string | null;
+  sender: string;
+  /** Set once we've co-signed; from then on it may be on chain. */
+  signed: boolean;
+}
+
+/** A request the sponsor won't pay for, with the HTTP status to answer. */
+export class SponsorRefusal extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Why `data` may not be sponsored, or `null` if it may: every command must
+ * be a `withdraw_by_recipient` call into one of `packageVersions`, and none
+ * may touch the gas coin, which would be ours.
+ */
+export function sponsorshipViolation(
+  data: TransactionData,
+  packageVersions: readonly string[],
+): string | null {
+  const packages = new Set(
+    packageVersions.map((id) => normalizeSuiObjectId(id)),
+  );
+  if (data.commands.length === 0) return "The transaction is empty.";
+  if (data.commands.length > MAX_DEPOSITS_PER_TRANSACTION) {
+    return `At most ${MAX_DEPOSITS_PER_TRANSACTION} claims per transaction.`;
+  }
+  for (const command of data.commands) {
+    const call = command.MoveCall;
+    if (
+      !call ||
+      !packages.has(normalizeSuiObjectId(call.package)) ||
+      call.module !== MODULE_NAME ||
+      call.function !== SPONSORED_FUNCTION
+    ) {
+      return `Only ${MODULE_NAME}::${SPONSORED_FUNCTION} calls are sponsored.`;
+    }
+    if (call.arguments.some((arg) => arg.$kind === "GasCoin")) {
+      return "Sponsored transactions can't use the gas coin.";
+    }
+  }
+  return null;
+}
+
+/** Refuses with 429 when a `RateLimiter.take` asks to wait `wait` ms. */
+function throwIfLimited(wait: number) {
+  if (wait > 0) {
+    throw new SponsorRefusal(
+      429,
+      `Too many sponsored transactions; try again in ${Math.ceil(wait / 60_000)} min.`,
+    );
+  }
+}
+
+export interface SponsorOptions {
+  client: SuiClient;
+  signer: Keypair;
+  /** Every version of the package, as in `TimeDepositClient`. */
+  packageVersions: readonly string[];
+  /** Gas coins set aside per client IP; a cheap guard ahead of `sender`'s. */
+  ipLimiter: RateLimiter;
+  /** Co-signed transactions per sender, who has proven the address by then. */
+  senderLimiter: RateLimiter;
+  /** Transactions that need more gas than this, in MIST, are refused. */
+  maxGasBudget: bigint;
+  now?: () => number;
+}
+
+/** Pays gas for recipients' claims against one package, and nothing else. */
+export class Sponsor {
+  private readonly options: SponsorOptions;
+  private readonly now: () => number;
+  /** Gas coin ID → the transaction it's set aside for. */
+  private readonly reserved = new Map<string, GasReservation>();
+
+  constructor(options: SponsorOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  get address(): string {
+    return this.options.signer.toSuiAddress();
+  }
+
+  /**
+   * Checks the request against the policy and the rate limit of `clientKey`
+   * (the caller's IP: `sender` is unauthenticated here, so anyone can vary
+   * it), then adds our gas and simulates. Nothing is signed yet; see
+   * `execute`. Throws `SponsorRefusal`.
+   */
+  async sponsor(
+    request: SponsorRequest,
+    clientKey: string,
+  ): Promise<SponsoredTransaction> {
+    const { client, packageVersions, ipLimiter, maxGasBudget } = this.options;
+    if (!isValidSuiAddress(normalizeSuiAddress(request.sender ?? ""))) {
+      throw new SponsorRefusal(400, "sender must be a Sui address");
+    }
+    const sender = normalizeSuiAddress(request.sender);
+    let tx: Transaction;
+    try {
+      tx = Transaction.fromKind(fromBase64(request.transactionKind));
+    } catch {
+      throw new SponsorRefusal(
+        400,
+        "transactionKind must be base64 TransactionKind bytes",
+      );
+    }
+    const violation = sponsorshipViolation(tx.getData(), packageVersions);
+    if (violation) throw new SponsorRefusal(403, violation);
+
+    throwIfLimited(ipLimiter.take(clientKey));
+
+    const gasCoin = await this.reserveGasCoin(sender);
+    tx.setSender(sender);
+    tx.setGasOwner(this.address);
+    tx.setGasPayment([gasCoin]);
+    let bytes: Uint8Array;
+    try {
+      // Sets the budget from a simulation, so claims that would abort fail here.
+      bytes = await tx.build({ client });
+    } catch (e) {
+      this.reserved.delete(gasCoin.objectId);
+      throw new SponsorRefusal(400, `The transaction would fail: ${describeError(e)}`);
+    }
+    if (BigInt(tx.getData().gasData.budget ?? 0) > maxGasBudget) {
+      this.reserved.delete(gasCoin.objectId);
+      throw new SponsorRefusal(403, "The transaction needs too much gas.");
+    }
+    this.reserved.get(gasCoin.objectId)!.digest =
+      TransactionDataBuilder.getDigestFromBytes(bytes);
+    return { bytes: toBase64(bytes) };
+  }
+
+  /**
+   * Co-signs a transaction from `sponsor` once its sender has signed it, and
+   * submits it. Signing only here means a coin whose transaction was never
+   * submitted can be handed out again without risking equivocation. The
+   * sender's rate limit applies here, where the signature authenticates them.
+   */
+  async execute({
+    bytes,
+    signature,
+  }: SponsorExecuteRequest): Promise<{ digest: string }> {
+    const { client, signer, senderLimiter } = this.options;
+    const txBytes = this.decodeBytes(bytes);
+    const coinId = this.reservedCoinOf(txBytes);
+    const reservation = coinId ? this.reserved.get(coinId) : undefined;
+    if (!reservation) {
+      throw new SponsorRefusal(
+        409,
+        "This sponsorship expired or was released; ask for a new one.",
+      );
+    }
+    try {
+      await verifyTransactionSignature(txBytes, signature, {
+        address: reservation.sender,
+        client,
+      });
+    } catch {
+      throw new SponsorRefusal(400, "signature must be the sender's");
+    }
+    const wait = senderLimiter.take(reservation.sender);
+    if (wait > 0) {
+      // Never co-signed, so the coin can go straight back to the pool.
+      this.reserved.delete(coinId!);
+      throwIfLimited(wait);
+    }
+    reservation.signed = true;
+    const sponsorSignature = await signer.signTransaction(txBytes);
+    const { digest } = await client.executeTransactionBlock({
+      transactionBlock: txBytes,
+      signature: [signature, sponsorSignature.signature],
+    });
+    return { digest };
+  }
+
+  /**
+   * Frees the gas coin of a transaction from `sponsor` that won't be
+   * submitted. Does nothing once `execute` has co-signed it.
+   */
+  release(bytes: string): { released: boolean } {
+    const coinId = this.reservedCoinOf(this.decodeBytes(bytes));
+    if (!coinId || this.reserved.get(coinId)!.signed) {
+      return { released: false };
+    }
+    this.reserved.delete(coinId);
+    return { released: true };
+  }
+
+  private decodeBytes(bytes: string): Uint8Array {
+    try {
+      return fromBase64(bytes);
+    } catch {
+      throw new SponsorRefusal(400, "bytes must be base64 TransactionData");
+    }
+  }
+
+  /** The gas coin still set aside for the transaction `bytes`, if any. */
+  private reservedCoinOf(bytes: Uint8Array): string | null {
+    const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+    const now = this.now();
+    for (const [id, reservation] of this.reserved) {
+      if (reservation.digest === digest && reservation.until > now) return id;
+    }
+    return null;
+  }
+
+  /**
+   * Picks a gas coin no transaction we built recently is using, so two
+   * sponsored transactions don't equivocate on the same coin version.
+   */
+  private async reserveGasCoin(sender: string) {
+    const { client, maxGasBudget } = this.options;
+    const now = this.now();
+    for (const [id, { until }] of this.reserved) {
+      if (until <= now) this.reserved.delete(id);
+    }
+    let cursor: string | null | undefined;
+    do {
+      const page = await client.getCoins({
+        owner: this.address,
+        coinType: SUI_COIN_TYPE,
+        cursor,
+      });
+      const coin = page.data.find(
+        (c) =>
+          !this.reserved.has(c.coinObjectId) &&
+          BigInt(c.balance) >= maxGasBudget,
+      );
+      if (coin) {
+        this.reserved.set(coin.coinObjectId, {
+          until: now + GAS_RESERVATION_MS,
+          digest: null,
+          sender,
+          signed: false,
+        });
+        return {
+          objectId: coin.coinObjectId,
+          version: coin.version,
+          digest: coin.digest,
+        };
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    throw new SponsorRefusal(503, "The sponsor is out of gas coins; try again later.");
+  }
+}
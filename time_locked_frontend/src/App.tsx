@@ -1,271 +1,391 @@
 import { useState, useEffect } from "react";
+import { Link, Navigate, Route, Routes } from "react-router";
 import {
-  ConnectButton,
   useCurrentAccount,
-  useSignAndExecuteTransaction,
+  useSuiClientContext,
+  useSuiClientQuery,
 } from "@mysten/dapp-kit";
-import { Transaction } from "@mysten/sui/transactions";
-import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import type { CoinBalance } from "@mysten/sui/client";
+import {
+  SUI_COIN_TYPE,
+  abortMessage,
+  createdDepositIds,
+  describeError,
+  sumWithdrawals,
+  fallbackCoinInfo,
+  formatCoinAmount,
+  formatUnits,
+  normalizeCoinType,
+  parseAmount,
+  tagVestingTransaction,
+  validateDeposit,
+  type CoinInfo,
+  type Tranche,
+} from "./sdk/index.ts";
+import PreflightPanel from "./components/PreflightPanel.tsx";
+import DepositHistory from "./components/DepositHistory.tsx";
+import AppHeader from "./components/AppHeader.tsx";
+import DepositActions from "./components/DepositActions.tsx";
+import DepositDetails from "./components/DepositDetails.tsx";
+import DepositListControls from "./components/DepositListControls.tsx";
+import DepositTotals from "./components/DepositTotals.tsx";
+import CalendarButton from "./components/CalendarButton.tsx";
+import UnlockTimeInput from "./components/UnlockTimeInput.tsx";
+import RecipientInput from "./components/RecipientInput.tsx";
+import ActivityLog from "./components/ActivityLog.tsx";
+import AddressBook from "./components/AddressBook.tsx";
+import BulkCreateForm from "./components/BulkCreateForm.tsx";
+import VestingForm from "./components/VestingForm.tsx";
+import DepositCard from "./components/DepositCard.tsx";
+import VestingScheduleCard from "./components/VestingScheduleCard.tsx";
+import type { BulkRow } from "./lib/bulkCsv.ts";
+import {
+  depositPath,
+  depositUrl,
+  lockAt,
+  type DepositRow,
+} from "./lib/deposits.ts";
+import {
+  DEFAULT_FILTER,
+  byDirection,
+  filterDeposits,
+  totalsByCoin,
+  type DepositDirection,
+} from "./lib/depositList.ts";
+import { unlockEvent } from "./lib/calendar.ts";
+import { useNetworkVariable } from "./networkConfig.ts";
+import { useNow } from "./hooks/useNow.ts";
+import { useActivity } from "./hooks/useActivity.ts";
+import { useAddressNames } from "./hooks/useAddressNames.ts";
+import {
+  useDeposit,
+  useDepositHistory,
+  useDeposits,
+  useVestingSchedules,
+} from "./hooks/useDeposits.ts";
+import { useTimeDeposits } from "./hooks/useTimeDeposits.ts";
+import { useTransactionFlow } from "./hooks/useTransactionFlow.ts";
+import { useUnlockNotifications } from "./hooks/useUnlockNotifications.ts";
+import DepositPage from "./pages/DepositPage.tsx";
+import WatchPage from "./pages/WatchPage.tsx";
+
+/** Coins the wallet actually holds; these drive the coin picker. */
+function heldBalances(all: CoinBalance[]): CoinBalance[] {
+  return all.filter((b) => BigInt(b.totalBalance) > 0n);
+}
 
-const PACKAGE_ID =
-  "0x3267853684c621750d182868a26fbe51adc96f7e169cb435da7a57204ac4b10a";
-const MODULE_NAME = "deposit";
-const CLOCK_OBJECT_ID = "0x6";
+/** Remounts the UI on network switch so no state leaks across networks. */
+export default function App() {
+  const { network } = useSuiClientContext();
+  return (
+    <Routes key={network}>
+      <Route path="/" element={<TimeLockedDepositUI />} />
+      <Route path="/deposit/:id" element={<DepositPage />} />
+      <Route path="/watch" element={<WatchPage />} />
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  );
+}
 
-const client = new SuiClient({ url: getFullnodeUrl("testnet") });
+function TimeLockedDepositUI() {
+  const { network } = useSuiClientContext();
+  const packageId = useNetworkVariable("packageId");
+  const timeDeposits = useTimeDeposits();
 
-export default function TimeLockedDepositUI() {
   const currentAccount = useCurrentAccount();
-  const { mutateAsync: signAndExecuteTransaction } =
-    useSignAndExecuteTransaction();
+  const activity = useActivity();
+  const { nameOf } = useAddressNames();
+  const { pending, preflighting, prepare, confirm, cancel } =
+    useTransactionFlow();
 
   const [amountInput, setAmountInput] = useState("");
   const [durationMinutes, setDurationMinutes] = useState<number>(60);
   const [selectedDepositId, setSelectedDepositId] = useState("");
-  const [coinType] = useState<string>("");
-  const [info, setInfo] = useState<any | null>(null);
+  const [coinType, setCoinType] = useState(normalizeCoinType(SUI_COIN_TYPE));
+  const [coinInfos, setCoinInfos] = useState<Record<string, CoinInfo>>({});
+  const [recipientInput, setRecipientInput] = useState("");
   const [recipientAddress, setRecipientAddress] = useState("");
-  const [ownedDeposits, setOwnedDeposits] = useState<any[]>([]);
-  const [loadingDeposits, setLoadingDeposits] = useState(false);
-  const [loadingInfo, setLoadingInfo] = useState(false);
-
-  const amount = parseFloat(amountInput || "0");
+  const [createMode, setCreateMode] = useState<
+    "single" | "bulk" | "vesting"
+  >("single");
+  const [tab, setTab] = useState<DepositDirection | null>(null);
+  const [listFilter, setListFilter] = useState(DEFAULT_FILTER);
+
+  const selectedCoin = coinInfos[coinType] ?? fallbackCoinInfo(coinType);
+  const parsedAmount = parseAmount(amountInput || "0", selectedCoin.decimals);
+  const baseAmount = parsedAmount.ok ? parsedAmount.amount : 0n;
+  // Everything `create_deposit` would abort on, shown once the form is touched.
+  const depositErrors =
+    currentAccount && (amountInput || recipientInput)
+      ? validateDeposit(
+          { recipient: recipientAddress, amount: baseAmount, durationMinutes },
+          currentAccount.address,
+        )
+      : [];
+  // A malformed amount gets its own message rather than "must be positive".
+  const createErrors = parsedAmount.ok
+    ? depositErrors
+    : [
+        parsedAmount.error,
+        ...depositErrors.filter((e) => e !== abortMessage("EInvalidAmount")),
+      ];
   const isCreateDisabled =
     !currentAccount ||
-    !amount ||
-    amount <= 0 ||
-    durationMinutes <= 0 ||
-    !recipientAddress;
-
-  function toMist(n: number) {
-    return BigInt(Math.floor(n * 1_000_000_000));
-  }
-
-  // Auto-fetch deposits when account changes
-  useEffect(() => {
-    if (currentAccount?.address) {
-      fetchOwnedDeposits();
-    } else {
-      setOwnedDeposits([]);
-      setInfo(null);
-      setSelectedDepositId("");
-    }
-  }, [currentAccount?.address]);
+    !packageId ||
+    !amountInput ||
+    !recipientInput ||
+    createErrors.length > 0;
+
+  const { data: balances = [] } = useSuiClientQuery(
+    "getAllBalances",
+    { owner: currentAccount?.address ?? "" },
+    { enabled: !!currentAccount, select: heldBalances },
+  );
+  const {
+    entries: history,
+    isLoading: loadingHistory,
+    isFetching: refreshing,
+    refetch,
+  } = useDepositHistory(currentAccount?.address);
+  const activeIds = history
+    .filter((e) => e.status === "active")
+    .map((e) => e.created.depositId);
+  const { deposits: ownedDeposits, isLoading: loadingLocks } =
+    useDeposits(activeIds);
+  const loadingDeposits = loadingHistory || loadingLocks;
+  // A selection withdrawn meanwhile, here or elsewhere, is dropped.
+  const selectedId = activeIds.includes(selectedDepositId)
+    ? selectedDepositId
+    : "";
+  const { data: info = null, isLoading: loadingInfo } = useDeposit(
+    selectedId || null,
+  );
 
-  // Auto-fetch deposit info when selectedDepositId changes
+  const now = useNow();
+  const deposits = ownedDeposits.map((d) => lockAt(d, now));
+  const selected = info && lockAt(info, now);
+  // Schedules with a tranche still live are listed as one entry each.
+  const liveById = new Map(deposits.map((d) => [d.objectId, d]));
+  const vestingGroups = useVestingSchedules(history).filter((g) =>
+    g.tranches.some((t) => liveById.has(t.created.depositId)),
+  );
+  const groupOf = new Map(
+    vestingGroups.flatMap((g) =>
+      g.tranches.map((t) => [t.created.depositId, g] as const),
+    ),
+  );
+  const sent = byDirection(deposits, currentAccount?.address ?? "", "sent");
+  const incoming = byDirection(
+    deposits,
+    currentAccount?.address ?? "",
+    "incoming",
+  );
+  // Until a tab is picked, open the one that has something in it.
+  const direction =
+    tab ?? (sent.length === 0 && incoming.length > 0 ? "incoming" : "sent");
+  const tabDeposits = direction === "sent" ? sent : incoming;
+  const visible = filterDeposits(tabDeposits, direction, listFilter, nameOf);
+  // A schedule takes the place of its first tranche in the filtered order.
+  const shownGroups = new Set<string>();
+  const listItems = visible.flatMap((deposit) => {
+    const group = groupOf.get(deposit.objectId) ?? null;
+    if (group && shownGroups.has(group.id)) return [];
+    if (group) shownGroups.add(group.id);
+    return [{ deposit, group }];
+  });
+  const listCoins = [
+    ...new Set(deposits.map((d) => normalizeCoinType(d.coinType))),
+  ].map((t) => coinInfos[t] ?? fallbackCoinInfo(t));
+  const claimable = deposits.filter(
+    (d) =>
+      d.recipient === currentAccount?.address && d.lock?.canRecipientWithdraw,
+  );
+  const upcoming = deposits.filter(
+    (d) => d.lock && !d.lock.canRecipientWithdraw,
+  );
+  const notifications = useUnlockNotifications({
+    deposits,
+    address: currentAccount?.address,
+    network,
+    formatAmount,
+  });
+
+  // Load decimals and symbols for every coin type on screen
   useEffect(() => {
-    if (selectedDepositId) {
-      fetchDepositInfo(selectedDepositId);
-    } else {
-      setInfo(null);
-    }
-  }, [selectedDepositId]);
-
-  // ----------------
-  // Fetch owned deposits
-  // ----------------
-  async function fetchOwnedDeposits() {
-    if (!currentAccount?.address) return;
-
-    setLoadingDeposits(true);
-    try {
-      const depositorEvents = await client.queryEvents({
-        query: {
-          MoveEventType: `${PACKAGE_ID}::deposit::DepositCreated<0x2::sui::SUI>`,
-        },
-        limit: 50,
-      });
-
-      const relevant = depositorEvents.data.filter((ev: any) => {
-        const fields = ev.parsedJson;
-        return (
-          fields.depositor === currentAccount.address ||
-          fields.recipient === currentAccount.address
-        );
-      });
-
-      const deposits: any[] = [];
-      for (const ev of relevant) {
-        const fields = ev.parsedJson as any;
-        const id = fields.deposit_id;
-        try {
-          const res = await client.getObject({
-            id,
-            options: { showContent: true },
-          });
-          if (res.data?.content?.dataType === "moveObject") {
-            const fields = (res.data.content as any).fields;
-            deposits.push({
-              objectId: res.data.objectId,
-              depositor: fields.depositor,
-              recipient: fields.recipient,
-              amount:
-                fields.balance?.fields?.value ??
-                fields.balance?.value ??
-                fields.balance,
-              start_time: fields.start_time,
-              duration: fields.duration,
-              unlock_time: fields.unlock_time,
-              isUnlocked: Date.now() >= Number(fields.unlock_time),
-            });
-          }
-        } catch (err) {
-          console.warn("Failed to fetch deposit", id, err);
-        }
-      }
-
-      setOwnedDeposits(deposits);
-    } catch (error) {
-      console.error("Failed to fetch deposits:", error);
-    } finally {
-      setLoadingDeposits(false);
-    }
-  }
+    const types = new Set([
+      normalizeCoinType(SUI_COIN_TYPE),
+      coinType,
+      ...balances.map((b) => normalizeCoinType(b.coinType)),
+      ...history.map((e) => normalizeCoinType(e.created.coinType)),
+    ]);
+    const missing = [...types].filter((t) => !coinInfos[t]);
+    if (missing.length === 0) return;
+    Promise.all(
+      missing.map((t) =>
+        timeDeposits.getCoinInfo(t).catch(() => fallbackCoinInfo(t)),
+      ),
+    ).then((loaded) =>
+      setCoinInfos((prev) => ({
+        ...prev,
+        ...Object.fromEntries(loaded.map((c) => [c.coinType, c])),
+      })),
+    );
+  }, [timeDeposits, coinType, balances, history, coinInfos]);
 
   // ----------------
   // Contract calls
   // ----------------
-  async function createDeposit() {
-    if (!currentAccount) return alert("Connect wallet first");
-    if (!amount || durationMinutes <= 0) return alert("Invalid input");
+  function createDeposit() {
+    if (!currentAccount) {
+      return activity.notify("Connect wallet first", "error");
+    }
+    if (createErrors.length > 0) {
+      return activity.notify(createErrors.join(" "), "error");
+    }
 
-    try {
-      const tx = new Transaction();
-      tx.setGasBudget(100000000);
-
-      const suiAmount = toMist(amount);
-      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(suiAmount)]);
-
-      tx.moveCall({
-        target: `${PACKAGE_ID}::${MODULE_NAME}::create_deposit`,
-        typeArguments: ["0x2::sui::SUI"],
-        arguments: [
-          coin,
-          tx.pure.address(recipientAddress),
-          tx.pure.u64(durationMinutes),
-          tx.object(CLOCK_OBJECT_ID),
-        ],
-      });
-
-      await signAndExecuteTransaction({ transaction: tx });
-
-      alert("Deposit created! Refresh to see it.");
+    const tx = timeDeposits.createDeposit({
+      amount: baseAmount,
+      recipient: recipientAddress,
+      durationMinutes,
+      coinType,
+    });
+    prepare("Create deposit", tx, () => {
       setAmountInput("");
       setDurationMinutes(60);
+    });
+  }
 
-      // refresh deposits via events
-      fetchOwnedDeposits();
-    } catch (e: any) {
-      console.error(e);
-      alert(`Create deposit failed: ${e?.toString()}`);
+  /** Submits one transaction per batch, each after the previous succeeds. */
+  function createBulkDeposits(rows: BulkRow[]) {
+    if (!currentAccount) {
+      return activity.notify("Connect wallet first", "error");
     }
+    const batches = timeDeposits.createDepositBatches(
+      rows.map(({ recipient, amount, durationMinutes }) => ({
+        recipient,
+        amount,
+        durationMinutes,
+        coinType,
+      })),
+    );
+    const submit = (i: number) =>
+      prepare(
+        batches.length > 1
+          ? `Create deposits (${i + 1} of ${batches.length})`
+          : "Create deposits",
+        batches[i],
+        (receipt) => {
+          if (i + 1 < batches.length) submit(i + 1);
+          return `${createdDepositIds(receipt).length} deposits created`;
+        },
+      );
+    submit(0);
   }
 
-  async function withdrawAsDepositor() {
-    if (!selectedDepositId || !currentAccount)
-      return alert("Select a deposit and connect wallet");
-    try {
-      const tx = new Transaction();
-      tx.moveCall({
-        target: `${PACKAGE_ID}::${MODULE_NAME}::withdraw_by_depositor`,
-        typeArguments: [coinType?.trim() === "" ? "0x2::sui::SUI" : coinType],
-        arguments: [tx.object(selectedDepositId), tx.object(CLOCK_OBJECT_ID)],
-      });
-      const result = (await signAndExecuteTransaction({
-        transaction: tx,
-      })) as any;
-      const status = result?.effects?.status?.status;
-      if (status === "failure") {
-        const err = result?.effects?.status?.error;
-        alert(`Withdraw failed: ${err}`);
-        return;
-      }
-      alert("Withdraw successful (depositor)");
-      setSelectedDepositId("");
-      setInfo(null);
-      fetchOwnedDeposits();
-    } catch (e: any) {
-      console.error(e);
-      alert(`Withdraw failed: ${e?.toString()}`);
+  /** Claims every unlocked deposit addressed to the account. */
+  function claimAll() {
+    if (!currentAccount) {
+      return activity.notify("Connect wallet first", "error");
     }
+    const batches = timeDeposits.withdrawAllByRecipientBatches(
+      claimable.map((d) => ({ depositId: d.objectId, coinType: d.coinType })),
+    );
+    const totals = new Map<string, bigint>();
+    const submit = (i: number) =>
+      prepare(
+        batches.length > 1
+          ? `Claim all (${i + 1} of ${batches.length})`
+          : "Claim all",
+        batches[i],
+        (receipt) => {
+          for (const [type, amount] of sumWithdrawals(receipt.events ?? [])) {
+            totals.set(type, (totals.get(type) ?? 0n) + amount);
+          }
+          if (i + 1 < batches.length) {
+            submit(i + 1);
+            return;
+          }
+          setSelectedDepositId("");
+          const summary = [...totals]
+            .map(([type, amount]) => formatAmount(amount, type))
+            .join("\n");
+          return `Claimed:\n${summary}`;
+        },
+        { sponsorable: true },
+      );
+    submit(0);
   }
 
-  async function withdrawAsRecipient() {
-    if (!selectedDepositId || !currentAccount)
-      return alert("Select a deposit and connect wallet");
-    try {
-      const tx = new Transaction();
-      tx.moveCall({
-        target: `${PACKAGE_ID}::${MODULE_NAME}::withdraw_by_recipient`,
-        typeArguments: [coinType?.trim() === "" ? "0x2::sui::SUI" : coinType],
-        arguments: [tx.object(selectedDepositId), tx.object(CLOCK_OBJECT_ID)],
-      });
-      const result = (await signAndExecuteTransaction({
-        transaction: tx,
-      })) as any;
-      const status = result?.effects?.status?.status;
-      if (status === "failure") {
-        const err = result?.effects?.status?.error;
-        alert(`Withdraw failed: ${err}`);
-        return;
-      }
-      alert("Withdraw successful (recipient)");
-      setSelectedDepositId("");
-      setInfo(null);
-      fetchOwnedDeposits();
-    } catch (e: any) {
-      console.error(e);
-      alert(`Withdraw failed: ${e?.toString()}`);
+  function createVesting(recipient: string, tranches: Tranche[]) {
+    if (!currentAccount) {
+      return activity.notify("Connect wallet first", "error");
     }
+    const tx = tagVestingTransaction(
+      timeDeposits.createDeposits(
+        tranches.map(({ amount, durationMinutes }) => ({
+          recipient,
+          amount,
+          durationMinutes,
+          coinType,
+        })),
+      ),
+    );
+    prepare(
+      "Create vesting schedule",
+      tx,
+      () => `${tranches.length} tranches created`,
+    );
   }
 
-  async function fetchDepositInfo(depositId: string) {
-    if (!depositId) return;
-
-    setLoadingInfo(true);
+  /** Fills in the whole balance, keeping back gas when depositing SUI. */
+  async function fillMaxAmount() {
+    if (!currentAccount) return;
     try {
-      const res = await client.getObject({
-        id: depositId,
-        options: { showContent: true },
-      });
-      if (res.data?.content?.dataType === "moveObject") {
-        const fields = (res.data.content as any).fields;
-        setInfo({
-          depositor: fields.depositor,
-          recipient: fields.recipient,
-          amount: fields.balance?.value ?? fields.balance,
-          start_time: fields.start_time,
-          duration: fields.duration,
-          unlock_time: fields.unlock_time,
-        });
-      } else {
-        alert("Object is not a TimeDeposit move object");
-        setInfo(null);
-      }
+      const max = await timeDeposits.maxDepositAmount(
+        currentAccount.address,
+        coinType,
+      );
+      setAmountInput(formatUnits(max, selectedCoin.decimals));
     } catch (e) {
-      console.error(e);
-      alert("Failed to fetch deposit info");
-      setInfo(null);
-    } finally {
-      setLoadingInfo(false);
+      activity.notify(
+        `Couldn't work out the maximum: ${describeError(e)}`,
+        "error",
+      );
+    }
+  }
+
+  function withdraw(as: "depositor" | "recipient") {
+    if (!info || !currentAccount) {
+      return activity.notify("Select a deposit and connect wallet", "error");
     }
+    const params = { depositId: info.objectId, coinType: info.coinType };
+    const tx =
+      as === "depositor"
+        ? timeDeposits.withdrawByDepositor(params)
+        : timeDeposits.withdrawByRecipient(params);
+    prepare(`Withdraw as ${as}`, tx, () => setSelectedDepositId(""), {
+      sponsorable: as === "recipient",
+    });
   }
 
-  function selectDeposit(deposit: any) {
+  function selectDeposit(deposit: DepositRow) {
     setSelectedDepositId(deposit.objectId);
   }
 
-  function fmtMs(ms: number | string | undefined) {
-    if (!ms) return "-";
-    const n = Number(ms);
-    if (Number.isNaN(n)) return "-";
-    return new Date(n).toLocaleString();
+  function calendarEvent(deposit: DepositRow) {
+    return unlockEvent(
+      deposit,
+      formatAmount(deposit.balance, deposit.coinType),
+      depositUrl(deposit.objectId, network),
+      currentAccount?.address,
+    );
   }
 
-  function formatAmount(amount: string | number) {
-    const n = Number(amount);
-    if (Number.isNaN(n)) return amount;
-    return (n / 1_000_000_000).toFixed(4) + " SUI";
+  function formatAmount(amount: bigint, type: string) {
+    return formatCoinAmount(
+      amount,
+      coinInfos[normalizeCoinType(type)] ?? fallbackCoinInfo(type),
+    );
   }
 
   // ----------------
@@ -274,114 +394,150 @@ export default function TimeLockedDepositUI() {
   return (
     <div className="min-h-screen bg-black text-white p-4">
       <div className="relative max-w-6xl mx-auto">
-        {/* Header */}
-        <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 mb-8 mt-18 border border-white/20 shadow-2xl">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-xl font-bold bg-white bg-clip-text text-transparent">
-                TimeLocked Deposits
-              </h1>
-            </div>
-            <div className="scale-100">
-              <ConnectButton />
-            </div>
-          </div>
-        </div>
+        <AppHeader />
 
         <div className="grid lg:grid-cols-2 gap-8">
           {/* Left Column */}
           <div className="space-y-8">
             {/* Create Deposit Section */}
             <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
-              <div className="flex items-center mb-6">
+              <div className="flex items-center justify-between mb-6">
                 <h2 className="text-2xl font-bold">Create New Deposit</h2>
+                <div className="flex gap-2">
+                  {(["single", "bulk", "vesting"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setCreateMode(mode)}
+                      className={`px-4 py-2 text-sm rounded-xl font-medium capitalize transition-all duration-200 border ${
+                        createMode === mode
+                          ? "bg-blue-500/20 border-blue-400 text-white"
+                          : "bg-white/5 border-white/10 text-slate-300 hover:bg-white/10"
+                      }`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               <div className="space-y-6">
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-3">
-                    Amount (SUI)
+                    Coin
                   </label>
-                  <div className="relative">
-                    <input
-                      className="w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/50 focus:outline-none transition-all duration-200"
-                      placeholder="Enter amount (e.g. 1.5)"
-                      value={amountInput}
-                      onChange={(e) => setAmountInput(e.target.value)}
-                    />
-                    <div className="absolute right-4 top-1/2 transform -translate-y-1/2 text-slate-400 font-medium">
-                      SUI
-                    </div>
-                  </div>
+                  <select
+                    className="w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white focus:border-blue-400 focus:ring-2 focus:ring-blue-400/50 focus:outline-none transition-all duration-200"
+                    value={coinType}
+                    onChange={(e) => setCoinType(e.target.value)}
+                  >
+                    {balances.length === 0 && (
+                      <option value={coinType}>{selectedCoin.symbol}</option>
+                    )}
+                    {balances.map((b) => {
+                      const type = normalizeCoinType(b.coinType);
+                      return (
+                        <option key={type} value={type} className="bg-black">
+                          {formatAmount(BigInt(b.totalBalance), type)}
+                        </option>
+                      );
+                    })}
+                  </select>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-300 mb-3">
-                    Recipient Address
-                  </label>
-                  <input
-                    className="w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-purple-400 focus:ring-2 focus:ring-purple-400/50 focus:outline-none transition-all duration-200"
-                    placeholder="0xRecipient..."
-                    value={recipientAddress}
-                    onChange={(e) => setRecipientAddress(e.target.value)}
+                {createMode === "bulk" && currentAccount ? (
+                  <BulkCreateForm
+                    depositor={currentAccount.address}
+                    coin={selectedCoin}
+                    disabled={!packageId || preflighting}
+                    formatAmount={formatAmount}
+                    onSubmit={createBulkDeposits}
                   />
-                </div>
+                ) : createMode === "vesting" && currentAccount ? (
+                  <VestingForm
+                    depositor={currentAccount.address}
+                    coin={selectedCoin}
+                    disabled={!packageId || preflighting}
+                    formatAmount={formatAmount}
+                    onSubmit={createVesting}
+                  />
+                ) : (
+                  <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-3">
+                      Amount ({selectedCoin.symbol})
+                    </label>
+                    <div className="relative">
+                      <input
+                        className="w-full p-4 pr-32 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/50 focus:outline-none transition-all duration-200"
+                        placeholder="Enter amount (e.g. 1.5)"
+                        inputMode="decimal"
+                        value={amountInput}
+                        onChange={(e) => setAmountInput(e.target.value)}
+                      />
+                      <div className="absolute right-4 top-1/2 transform -translate-y-1/2 flex items-center gap-3 text-slate-400 font-medium">
+                        <button
+                          type="button"
+                          onClick={fillMaxAmount}
+                          disabled={!currentAccount}
+                          className="px-2 py-1 text-xs rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+                        >
+                          Max
+                        </button>
+                        {selectedCoin.symbol}
+                      </div>
+                    </div>
+                  </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-300 mb-3">
-                    Lock Duration (minutes)
-                  </label>
-                  <input
-                    type="number"
-                    className="w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/50 focus:outline-none transition-all duration-200"
-                    value={durationMinutes}
-                    onChange={(e) =>
-                      setDurationMinutes(parseInt(e.target.value || "0"))
-                    }
+                  <RecipientInput
+                    value={recipientInput}
+                    onChange={(input, address) => {
+                      setRecipientInput(input);
+                      setRecipientAddress(address);
+                    }}
                   />
-                </div>
 
-                <button
-                  onClick={createDeposit}
-                  disabled={isCreateDisabled}
-                  className={`w-full py-4 rounded-2xl font-semibold text-lg transition-all duration-200 ${
-                    isCreateDisabled
-                      ? "bg-slate-700 text-slate-400 cursor-not-allowed"
-                      : "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transform hover:scale-[1.02]"
-                  }`}
-                >
-                  {isCreateDisabled ? "Fill All Fields" : "Create Deposit"}
-                </button>
-              </div>
-            </div>
+                  <UnlockTimeInput
+                    durationMinutes={durationMinutes}
+                    onChange={setDurationMinutes}
+                  />
 
-            {/* Actions Section */}
-            {selectedDepositId && (
-              <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
-                <div className="flex items-center mb-6">
-                  <div>
-                    <h2 className="text-2xl font-bold">Withdraw Actions</h2>
-                    <p className="text-sm text-slate-300">
-                      Selected: {selectedDepositId.slice(0, 16)}...
+                  {createErrors.map((error) => (
+                    <p key={error} className="text-sm text-red-300">
+                      {error}
                     </p>
-                  </div>
-                </div>
+                  ))}
 
-                <div className="space-y-4">
-                  <button
-                    onClick={withdrawAsDepositor}
-                    className="w-full py-4 rounded-2xl bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-[1.02]"
-                  >
-                    Withdraw as Depositor
-                  </button>
                   <button
-                    onClick={withdrawAsRecipient}
-                    className="w-full py-4 rounded-2xl bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 text-white font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-[1.02]"
+                    onClick={createDeposit}
+                    disabled={isCreateDisabled || preflighting}
+                    className={`w-full py-4 rounded-2xl font-semibold text-lg transition-all duration-200 ${
+                      isCreateDisabled
+                        ? "bg-slate-700 text-slate-400 cursor-not-allowed"
+                        : "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transform hover:scale-[1.02]"
+                    }`}
                   >
-                    Withdraw as Recipient
+                    {createErrors.length > 0
+                      ? "Fix the Errors Above"
+                      : isCreateDisabled
+                        ? "Fill All Fields"
+                        : "Create Deposit"}
                   </button>
-                </div>
+                  </>
+                )}
               </div>
+            </div>
+
+            {/* Pre-flight Section */}
+            {pending && currentAccount && (
+              <PreflightPanel
+                label={pending.label}
+                result={pending.result}
+                sender={currentAccount.address}
+                sponsored={!!pending.sponsored}
+                formatAmount={formatAmount}
+                onConfirm={confirm}
+                onCancel={cancel}
+              />
             )}
           </div>
 
@@ -393,13 +549,44 @@ export default function TimeLockedDepositUI() {
                 <div className="flex items-center">
                   <h2 className="text-2xl font-bold">Your Deposits</h2>
                 </div>
-                <button
-                  onClick={fetchOwnedDeposits}
-                  disabled={!currentAccount || loadingDeposits}
-                  className="px-6 py-3 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 disabled:opacity-50 border border-white/20"
-                >
-                  {loadingDeposits ? "Loading..." : "Refresh"}
-                </button>
+                <div className="flex flex-wrap justify-end gap-2">
+                  {currentAccount && notifications.supported && (
+                    <button
+                      onClick={
+                        notifications.enabled
+                          ? notifications.disable
+                          : notifications.enable
+                      }
+                      title="Notify me when a deposit addressed to me unlocks"
+                      className="px-6 py-3 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 border border-white/20"
+                    >
+                      {notifications.enabled ? "Reminders on" : "Remind me"}
+                    </button>
+                  )}
+                  {upcoming.length > 0 && (
+                    <CalendarButton
+                      label="Add all to calendar"
+                      filename="deposit-unlocks.ics"
+                      events={() => upcoming.map(calendarEvent)}
+                    />
+                  )}
+                  {claimable.length > 0 && (
+                    <button
+                      onClick={claimAll}
+                      disabled={preflighting}
+                      className="px-6 py-3 text-sm bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 text-white rounded-xl font-medium transition-all duration-200 disabled:opacity-50"
+                    >
+                      Claim all ({claimable.length})
+                    </button>
+                  )}
+                  <button
+                    onClick={() => refetch()}
+                    disabled={!currentAccount || refreshing}
+                    className="px-6 py-3 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 disabled:opacity-50 border border-white/20"
+                  >
+                    {refreshing ? "Loading..." : "Refresh"}
+                  </button>
+                </div>
               </div>
 
               {!currentAccount && (
@@ -422,6 +609,13 @@ export default function TimeLockedDepositUI() {
                   <p className="text-slate-300">
                     Connect your wallet to view deposits
                   </p>
+                  <p className="text-sm text-slate-400 mt-2">
+                    or{" "}
+                    <Link to="/watch" className="underline hover:text-white">
+                      watch any address
+                    </Link>{" "}
+                    read-only
+                  </p>
                 </div>
               )}
 
@@ -451,50 +645,73 @@ export default function TimeLockedDepositUI() {
                   </div>
                 )}
 
-              {ownedDeposits.length > 0 && (
-                <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
-                  {ownedDeposits.map((deposit) => (
-                    <div
-                      key={deposit.objectId}
-                      className={`p-6 rounded-2xl cursor-pointer transition-all duration-200 border ${
-                        selectedDepositId === deposit.objectId
-                          ? "bg-blue-500/20 border-blue-400 shadow-lg transform scale-[1.02]"
-                          : "bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20"
-                      }`}
-                      onClick={() => selectDeposit(deposit)}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center mb-2">
-                            <p className="text-xl font-bold text-white">
-                              {formatAmount(deposit.amount)}
-                            </p>
-                            <span
-                              className={`ml-3 px-3 py-1 text-xs font-semibold rounded-full ${
-                                deposit.isUnlocked
-                                  ? "bg-green-500/20 text-green-300 border border-green-500/30"
-                                  : "bg-yellow-500/20 text-yellow-300 border border-yellow-500/30"
-                              }`}
-                            >
-                              {deposit.isUnlocked ? "Unlocked" : "Locked"}
-                            </span>
-                          </div>
-                          <p className="text-sm text-slate-300 mb-1">
-                            To: {deposit.recipient?.slice(0, 12)}...
-                          </p>
-                          <p className="text-xs text-slate-400">
-                            Unlock: {fmtMs(deposit.unlock_time)}
-                          </p>
-                        </div>
-                        <div className="text-right ml-4">
-                          <p className="text-xs text-slate-400">
-                            ID: {deposit.objectId.slice(0, 8)}...
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+              {currentAccount && ownedDeposits.length > 0 && (
+                <>
+                  <div className="flex gap-2 mb-4">
+                    {(
+                      [
+                        ["sent", sent.length],
+                        ["incoming", incoming.length],
+                      ] as const
+                    ).map(([d, count]) => (
+                      <button
+                        key={d}
+                        onClick={() => setTab(d)}
+                        className={`px-4 py-2 text-sm rounded-xl font-medium capitalize transition-all duration-200 border ${
+                          direction === d
+                            ? "bg-blue-500/20 border-blue-400 text-white"
+                            : "bg-white/5 border-white/10 text-slate-300 hover:bg-white/10"
+                        }`}
+                      >
+                        {d} ({count})
+                      </button>
+                    ))}
+                  </div>
+                  <DepositTotals
+                    direction={direction}
+                    totals={totalsByCoin(tabDeposits)}
+                    formatAmount={formatAmount}
+                  />
+                  <DepositListControls
+                    direction={direction}
+                    filter={listFilter}
+                    coins={listCoins}
+                    onChange={setListFilter}
+                  />
+                  {listItems.length === 0 && (
+                    <p className="text-center text-sm text-slate-400 py-8">
+                      {tabDeposits.length === 0
+                        ? direction === "sent"
+                          ? "You haven't sent any deposits that are still live."
+                          : "No live deposits are addressed to you."
+                        : "No deposits match these filters."}
+                    </p>
+                  )}
+                  <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
+                    {listItems.map(({ deposit, group }) =>
+                      group ? (
+                        <VestingScheduleCard
+                          key={group.id}
+                          group={group}
+                          live={liveById}
+                          direction={direction}
+                          selectedDepositId={selectedId}
+                          formatAmount={formatAmount}
+                          onSelect={selectDeposit}
+                        />
+                      ) : (
+                        <DepositCard
+                          key={deposit.objectId}
+                          deposit={deposit}
+                          direction={direction}
+                          selected={selectedId === deposit.objectId}
+                          formatAmount={formatAmount}
+                          onSelect={selectDeposit}
+                        />
+                      ),
+                    )}
+                  </div>
+                </>
               )}
             </div>
 
@@ -522,67 +739,38 @@ export default function TimeLockedDepositUI() {
               </div>
             )}
 
-            {info && !loadingInfo && (
-              <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
-                <div className="flex items-center mb-6">
-                  <h2 className="text-2xl font-bold">Deposit Details</h2>
-                </div>
-
-                <div className="space-y-6">
-                  <div className="grid grid-cols-1 gap-4">
-                    <div className="p-4 rounded-xl bg-white/5 border border-white/10">
-                      <p className="text-sm text-slate-400 mb-1">Depositor</p>
-                      <p className="font-mono text-sm text-white break-all">
-                        {info.depositor}
-                      </p>
-                    </div>
-
-                    <div className="p-4 rounded-xl bg-white/5 border border-white/10">
-                      <p className="text-sm text-slate-400 mb-1">Recipient</p>
-                      <p className="font-mono text-sm text-white break-all">
-                        {info.recipient}
-                      </p>
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="p-4 rounded-xl bg-white/5 border border-white/10">
-                        <p className="text-sm text-slate-400 mb-1">Amount</p>
-                        <p className="text-lg font-bold text-white">
-                          {formatAmount(info.amount)}
-                        </p>
-                      </div>
-
-                      <div className="p-4 rounded-xl bg-white/5 border border-white/10">
-                        <p className="text-sm text-slate-400 mb-1">Status</p>
-                        {Date.now() >= Number(info.unlock_time) ? (
-                          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold bg-green-500/20 text-green-300 border border-green-500/30">
-                            <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
-                            Unlocked
-                          </span>
-                        ) : (
-                          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold bg-yellow-500/20 text-yellow-300 border border-yellow-500/30">
-                            <div className="w-2 h-2 bg-yellow-400 rounded-full mr-2 animate-pulse"></div>
-                            Locked
-                          </span>
-                        )}
-                      </div>
-                    </div>
-
-                    <div className="p-4 rounded-xl bg-white/5 border border-white/10">
-                      <p className="text-sm text-slate-400 mb-1">Start Date</p>
-                      <p className="text-white">{fmtMs(info.start_time)}</p>
-                    </div>
-
-                    <div className="p-4 rounded-xl bg-white/5 border border-white/10">
-                      <p className="text-sm text-slate-400 mb-1">Unlock Time</p>
-                      <p className="text-white">{fmtMs(info.unlock_time)}</p>
-                    </div>
+            {selected && !loadingInfo && (
+              <DepositDetails
+                deposit={selected}
+                formatAmount={formatAmount}
+                headerAction={
+                  <div className="flex gap-2">
+                    {selected.lock && !selected.lock.canRecipientWithdraw && (
+                      <CalendarButton
+                        label="Add to calendar"
+                        filename={`deposit-${selected.objectId.slice(2, 10)}.ics`}
+                        events={() => [calendarEvent(selected)]}
+                      />
+                    )}
+                    <Link
+                      to={depositPath(selected.objectId)}
+                      className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 border border-white/20"
+                    >
+                      Open &amp; share
+                    </Link>
                   </div>
-                </div>
-              </div>
+                }
+              >
+                <DepositActions
+                  deposit={selected}
+                  address={currentAccount?.address}
+                  disabled={preflighting}
+                  onWithdraw={withdraw}
+                />
+              </DepositDetails>
             )}
 
-            {!selectedDepositId &&
+            {!selectedId &&
               currentAccount &&
               ownedDeposits.length > 0 && (
                 <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
@@ -614,6 +802,23 @@ export default function TimeLockedDepositUI() {
               )}
           </div>
         </div>
+
+        {/* History Section */}
+        {currentAccount && history.length > 0 && (
+          <DepositHistory
+            entries={history}
+            address={currentAccount.address}
+            formatAmount={formatAmount}
+          />
+        )}
+
+        {/* Activity Section */}
+        {activity.entries.length > 0 && (
+          <ActivityLog entries={activity.entries} />
+        )}
+
+        {/* Address Book Section */}
+        <AddressBook />
       </div>
     </div>
   );
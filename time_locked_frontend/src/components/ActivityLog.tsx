@@ -0,0 +1,106 @@
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { Link } from "react-router";
+import type { ActivityEntry, ActivityStatus } from "../lib/activity.ts";
+import { depositPath } from "../lib/deposits.ts";
+import { shortId } from "../lib/format.ts";
+import { explorerTxUrl } from "../networkConfig.ts";
+
+const STATUS_STYLES: Record<ActivityStatus, string> = {
+  pending: "bg-yellow-500/20 text-yellow-300 border border-yellow-500/30",
+  confirmed: "bg-green-500/20 text-green-300 border border-green-500/30",
+  failed: "bg-red-500/20 text-red-300 border border-red-500/30",
+};
+
+const STATUS_LABELS: Record<ActivityStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+};
+
+export function ActivityStatusBadge({ status }: { status: ActivityStatus }) {
+  return (
+    <span
+      className={`inline-flex items-center px-3 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status]}`}
+    >
+      {status === "pending" && (
+        <span className="w-2 h-2 bg-yellow-400 rounded-full mr-2 animate-pulse" />
+      )}
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+/** Outcome, explorer link and created deposits of one transaction. */
+export function ActivityDetails({ entry }: { entry: ActivityEntry }) {
+  const { network } = useSuiClientContext();
+  const explorer = entry.digest && explorerTxUrl(entry.network, entry.digest);
+  return (
+    <div className="space-y-1 text-xs text-slate-400">
+      {entry.summary && (
+        <p className="text-slate-300 whitespace-pre-line">{entry.summary}</p>
+      )}
+      {entry.error && <p className="text-red-300 break-words">{entry.error}</p>}
+      {entry.digest && (
+        <p>
+          tx{" "}
+          {explorer ? (
+            <a
+              href={explorer}
+              target="_blank"
+              rel="noreferrer"
+              className="font-mono underline underline-offset-2 hover:text-white"
+            >
+              {shortId(entry.digest)}
+            </a>
+          ) : (
+            <span className="font-mono">{shortId(entry.digest)}</span>
+          )}
+        </p>
+      )}
+      {entry.createdDepositIds.length > 0 && entry.network === network && (
+        <p className="flex flex-wrap gap-x-2">
+          Created:
+          {entry.createdDepositIds.map((id) => (
+            <Link
+              key={id}
+              to={depositPath(id)}
+              className="font-mono underline underline-offset-2 hover:text-white"
+            >
+              {shortId(id)}
+            </Link>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ActivityLogProps {
+  entries: ActivityEntry[];
+}
+
+/** Transactions the account sent from this tab, newest first. */
+export default function ActivityLog({ entries }: ActivityLogProps) {
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 mt-8 border border-white/20 shadow-2xl">
+      <h2 className="text-2xl font-bold mb-6">Recent Activity</h2>
+      <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="p-4 rounded-2xl bg-white/5 border border-white/10"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <p className="font-semibold text-white">{entry.label}</p>
+              <ActivityStatusBadge status={entry.status} />
+            </div>
+            <p className="text-xs text-slate-400 mb-1">
+              {new Date(entry.startedAt).toLocaleString()}
+            </p>
+            <ActivityDetails entry={entry} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
+import {
+  loadActivity,
+  saveActivity,
+  type ActivityEntry,
+} from "../lib/activity.ts";
+import {
+  ActivityContext,
+  type ActivityApi,
+  type NoticeTone,
+} from "../hooks/useActivity.ts";
+import { ActivityDetails, ActivityStatusBadge } from "./ActivityLog.tsx";
+
+/** How long settled transactions and notices stay on screen. */
+const TOAST_MS = 8_000;
+
+type Toast =
+  | { id: string; kind: "activity" }
+  | { id: string; kind: "notice"; message: string; tone: NoticeTone };
+
+/** Holds the session's transaction log and renders toasts for it. */
+export default function ActivityProvider({ children }: { children: ReactNode }) {
+  const { network } = useSuiClientContext();
+  const account = useCurrentAccount()?.address ?? "";
+  const [entries, setEntries] = useState<ActivityEntry[]>(loadActivity);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => saveActivity(entries), [entries]);
+
+  const api = useMemo<ActivityApi>(() => {
+    const dismissLater = (id: string) =>
+      setTimeout(
+        () => setToasts((ts) => ts.filter((t) => t.id !== id)),
+        TOAST_MS,
+      );
+    return {
+      entries: entries.filter(
+        (e) => e.network === network && e.account === account,
+      ),
+      start(label) {
+        const id = crypto.randomUUID();
+        const entry: ActivityEntry = {
+          id,
+          network,
+          account,
+          label,
+          status: "pending",
+          startedAt: Date.now(),
+          digest: null,
+          summary: null,
+          error: null,
+          createdDepositIds: [],
+        };
+        setEntries((es) => [entry, ...es]);
+        setToasts((ts) => [...ts, { id, kind: "activity" }]);
+        return id;
+      },
+      update(id, patch) {
+        setEntries((es) => es.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+        if (patch.status && patch.status !== "pending") dismissLater(id);
+      },
+      notify(message, tone = "info") {
+        const id = crypto.randomUUID();
+        setToasts((ts) => [...ts, { id, kind: "notice", message, tone }]);
+        dismissLater(id);
+      },
+    };
+  }, [entries, network, account]);
+
+  const byId = new Map(entries.map((e) => [e.id, e]));
+  const dismiss = (id: string) =>
+    setToasts((ts) => ts.filter((t) => t.id !== id));
+
+  return (
+    <ActivityContext.Provider value={api}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-50 w-80 space-y-3">
+        {toasts.map((toast) => {
+          const entry = toast.kind === "activity" ? byId.get(toast.id) : null;
+          if (toast.kind === "activity" && !entry) return null;
+          return (
+            <div
+              key={toast.id}
+              className={`p-4 rounded-2xl backdrop-blur-xl border shadow-2xl text-sm ${
+                toast.kind === "notice" && toast.tone === "error"
+                  ? "bg-red-950/80 border-red-500/30"
+                  : "bg-slate-900/80 border-white/20"
+              }`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  {entry ? (
+                    <>
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <p className="font-semibold text-white">{entry.label}</p>
+                        <ActivityStatusBadge status={entry.status} />
+                      </div>
+                      <ActivityDetails entry={entry} />
+                    </>
+                  ) : (
+                    toast.kind === "notice" && (
+                      <p className="text-white">{toast.message}</p>
+                    )
+                  )}
+                </div>
+                <button
+                  onClick={() => dismiss(toast.id)}
+                  aria-label="Dismiss"
+                  className="text-slate-400 hover:text-white"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </ActivityContext.Provider>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useAddressNames } from "../hooks/useAddressNames.ts";
+import { shortId } from "../lib/format.ts";
+
+/** Saved recipients; labels replace raw addresses across the app. */
+export default function AddressBook() {
+  const { contacts, resolver, saveContact, removeContact } = useAddressNames();
+  const [label, setLabel] = useState("");
+  const [target, setTarget] = useState("");
+  const [error, setError] = useState("");
+
+  async function add() {
+    let address: string | null;
+    try {
+      address = await resolver.addressOf(target);
+    } catch {
+      setError(`Couldn't look up ${target.trim()}; try again.`);
+      return;
+    }
+    if (!address) {
+      setError(`${target.trim()} is not an address or a registered SuiNS name.`);
+      return;
+    }
+    saveContact({ address, label });
+    setLabel("");
+    setTarget("");
+    setError("");
+  }
+
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 mt-8 border border-white/20 shadow-2xl">
+      <h2 className="text-2xl font-bold mb-6">Address Book</h2>
+
+      {contacts.length === 0 && (
+        <p className="text-sm text-slate-400 mb-6">
+          Saved addresses show up as names and autocomplete in recipient
+          fields.
+        </p>
+      )}
+
+      <ul className="space-y-2 mb-6 max-h-64 overflow-y-auto custom-scrollbar">
+        {contacts.map((c) => (
+          <li
+            key={c.address}
+            className="flex items-center justify-between p-3 rounded-xl bg-white/5 border border-white/10 text-sm"
+          >
+            <div>
+              <p className="text-white">{c.label}</p>
+              <p className="text-xs font-mono text-slate-400" title={c.address}>
+                {shortId(c.address, 12)}
+              </p>
+            </div>
+            <button
+              onClick={() => removeContact(c.address)}
+              className="text-xs text-slate-400 hover:text-red-300"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          className="sm:w-1/3 px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white placeholder-slate-400 text-sm focus:outline-none"
+          placeholder="Label"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <input
+          className="flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white placeholder-slate-400 text-sm focus:outline-none"
+          placeholder="0x... or name.sui"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+        />
+        <button
+          onClick={add}
+          disabled={!label.trim() || !target.trim()}
+          className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm border border-white/20 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-300 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { useAddressNames } from "../hooks/useAddressNames.ts";
+import { shortId } from "../lib/format.ts";
+
+interface AddressNameProps {
+  address: string;
+  /** Show the full address under the name instead of shortening it. */
+  full?: boolean;
+}
+
+/** Saved label or SuiNS name of an address, falling back to the address. */
+export default function AddressName({ address, full }: AddressNameProps) {
+  const { nameOf, request } = useAddressNames();
+  useEffect(() => request(address), [request, address]);
+  const name = nameOf(address);
+
+  if (full) {
+    return (
+      <>
+        {name && <span className="block font-sans font-semibold">{name}</span>}
+        <span className="font-mono break-all">{address}</span>
+      </>
+    );
+  }
+  return (
+    <span title={address} className={name ? undefined : "font-mono"}>
+      {name ?? shortId(address, 12)}
+    </span>
+  );
+}
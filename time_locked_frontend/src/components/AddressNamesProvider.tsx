@@ -0,0 +1,71 @@
+import { useCallback, useMemo, useRef, useState, type ReactNode } from "react";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { NameResolver } from "../sdk/index.ts";
+import {
+  loadContacts,
+  removeContact,
+  upsertContact,
+  type Contact,
+} from "../lib/addressBook.ts";
+import {
+  AddressNamesContext,
+  type AddressNamesApi,
+} from "../hooks/useAddressNames.ts";
+
+/** Address book plus cached SuiNS names for the current network. */
+export default function AddressNamesProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const client = useSuiClient();
+  const resolver = useMemo(() => new NameResolver(client), [client]);
+  const [contacts, setContacts] = useState<Contact[]>(loadContacts);
+  const [suinsNames, setSuinsNames] = useState<Record<string, string | null>>(
+    {},
+  );
+  const requested = useRef(new Set<string>());
+
+  // A new client means another network, whose names differ.
+  const [resolverFor, setResolverFor] = useState(resolver);
+  if (resolverFor !== resolver) {
+    setResolverFor(resolver);
+    setSuinsNames({});
+    requested.current = new Set();
+  }
+
+  const request = useCallback(
+    (address: string) => {
+      const key = normalizeSuiAddress(address);
+      if (requested.current.has(key)) return;
+      requested.current.add(key);
+      resolver
+        .lookup(key)
+        .then((name) => setSuinsNames((names) => ({ ...names, [key]: name })));
+    },
+    [resolver],
+  );
+
+  const api = useMemo<AddressNamesApi>(() => {
+    const labels = new Map(contacts.map((c) => [c.address, c.label]));
+    return {
+      contacts,
+      saveContact: (contact) => setContacts((cs) => upsertContact(cs, contact)),
+      removeContact: (address) =>
+        setContacts((cs) => removeContact(cs, address)),
+      resolver,
+      request,
+      nameOf: (address) => {
+        const key = normalizeSuiAddress(address);
+        return labels.get(key) ?? suinsNames[key] ?? null;
+      },
+    };
+  }, [contacts, suinsNames, resolver, request]);
+
+  return (
+    <AddressNamesContext.Provider value={api}>
+      {children}
+    </AddressNamesContext.Provider>
+  );
+}
@@ -0,0 +1,43 @@
+import { ConnectButton, useSuiClientContext } from "@mysten/dapp-kit";
+import { Link } from "react-router";
+import NetworkSwitcher from "./NetworkSwitcher.tsx";
+import { DEMO_MODE, useNetworkVariable } from "../networkConfig.ts";
+
+/** Title, network switcher and wallet button shared by every page. */
+export default function AppHeader() {
+  const { network } = useSuiClientContext();
+  const packageId = useNetworkVariable("packageId");
+
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 mb-8 mt-18 border border-white/20 shadow-2xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/">
+            <h1 className="text-xl font-bold bg-white bg-clip-text text-transparent">
+              TimeLocked Deposits
+            </h1>
+          </Link>
+        </div>
+        <div className="flex items-center gap-4 scale-100">
+          <Link to="/watch" className="text-sm text-slate-300 hover:text-white">
+            Watch list
+          </Link>
+          {DEMO_MODE ? (
+            <span className="px-4 py-3 text-sm bg-white/10 text-white rounded-xl font-medium border border-white/20">
+              Offline demo
+            </span>
+          ) : (
+            <NetworkSwitcher />
+          )}
+          <ConnectButton />
+        </div>
+      </div>
+      {!packageId && (
+        <p className="mt-4 text-sm text-yellow-300">
+          The TimeLocked Deposits package isn't configured for {network}.
+          Set VITE_PACKAGE_ID_{network.toUpperCase()} to use it here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState } from "react";
+import {
+  MAX_DEPOSITS_PER_TRANSACTION,
+  type CoinInfo,
+} from "../sdk/index.ts";
+import { parseBulkCsv, type BulkRow } from "../lib/bulkCsv.ts";
+import { fmtMs, shortId } from "../lib/format.ts";
+
+interface BulkCreateFormProps {
+  depositor: string;
+  coin: CoinInfo;
+  disabled: boolean;
+  formatAmount: (amount: bigint, coinType: string) => string;
+  onSubmit: (rows: BulkRow[]) => void;
+}
+
+/** Pasted or uploaded CSV of deposits, validated and previewed before submit. */
+export default function BulkCreateForm({
+  depositor,
+  coin,
+  disabled,
+  formatAmount,
+  onSubmit,
+}: BulkCreateFormProps) {
+  const [text, setText] = useState("");
+
+  const rows = useMemo(
+    () => parseBulkCsv(text, coin.decimals, depositor),
+    [text, coin.decimals, depositor],
+  );
+  const invalid = rows.filter((r) => r.errors.length > 0);
+  const total = rows.reduce((sum, r) => sum + r.amount, 0n);
+  const transactions = Math.ceil(rows.length / MAX_DEPOSITS_PER_TRANSACTION);
+  const canSubmit = !disabled && rows.length > 0 && invalid.length === 0;
+
+  async function loadFile(file: File | undefined) {
+    if (file) setText(await file.text());
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-3">
+          Deposits CSV
+        </label>
+        <textarea
+          className="w-full h-40 p-4 rounded-2xl bg-white/5 border border-white/20 text-white font-mono text-sm placeholder-slate-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/50 focus:outline-none transition-all duration-200"
+          placeholder={
+            "recipient, amount, duration or unlock date\n0xabc..., 1.5, 1440\n0xdef..., 2, 2026-01-31T09:00"
+          }
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <input
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          className="mt-3 text-sm text-slate-300"
+          onChange={(e) => loadFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-sm text-slate-400 mb-1">Deposits</p>
+              <p className="text-lg font-bold text-white">{rows.length}</p>
+            </div>
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-sm text-slate-400 mb-1">Total</p>
+              <p className="text-lg font-bold text-white">
+                {formatAmount(total, coin.coinType)}
+              </p>
+            </div>
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-sm text-slate-400 mb-1">Transactions</p>
+              <p className="text-lg font-bold text-white">{transactions}</p>
+            </div>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2">
+            {rows.map((row) => (
+              <div
+                key={row.line}
+                className={`p-3 rounded-xl text-sm border ${
+                  row.errors.length > 0
+                    ? "bg-red-500/10 border-red-500/30"
+                    : "bg-white/5 border-white/10"
+                }`}
+              >
+                <div className="flex justify-between text-slate-300">
+                  <span>
+                    {row.line}. {shortId(row.recipient, 12)}
+                  </span>
+                  <span>{formatAmount(row.amount, coin.coinType)}</span>
+                </div>
+                {row.errors.length === 0 ? (
+                  <p className="text-xs text-slate-400">
+                    {row.durationMinutes} min, unlocks ~{fmtMs(row.unlockAt)}
+                  </p>
+                ) : (
+                  row.errors.map((error) => (
+                    <p key={error} className="text-xs text-red-300">
+                      {error}
+                    </p>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => onSubmit(rows)}
+        disabled={!canSubmit}
+        className={`w-full py-4 rounded-2xl font-semibold text-lg transition-all duration-200 ${
+          !canSubmit
+            ? "bg-slate-700 text-slate-400 cursor-not-allowed"
+            : "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transform hover:scale-[1.02]"
+        }`}
+      >
+        {invalid.length > 0
+          ? `Fix ${invalid.length} invalid row${invalid.length === 1 ? "" : "s"}`
+          : `Create ${rows.length} Deposits`}
+      </button>
+    </div>
+  );
+}
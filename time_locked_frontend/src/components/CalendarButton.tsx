@@ -0,0 +1,26 @@
+import { downloadIcs, type CalendarEvent } from "../lib/calendar.ts";
+
+interface CalendarButtonProps {
+  label: string;
+  filename: string;
+  events: () => CalendarEvent[];
+  disabled?: boolean;
+}
+
+/** Downloads an `.ics` file with the given events. */
+export default function CalendarButton({
+  label,
+  filename,
+  events,
+  disabled,
+}: CalendarButtonProps) {
+  return (
+    <button
+      onClick={() => downloadIcs(filename, events())}
+      disabled={disabled}
+      className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 disabled:opacity-50 border border-white/20"
+    >
+      {label}
+    </button>
+  );
+}
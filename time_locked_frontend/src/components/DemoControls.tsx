@@ -0,0 +1,62 @@
+import { useQueryClient } from "@tanstack/react-query";
+import type { DepositSimulator } from "../demo/simulator.ts";
+import { useNow } from "../hooks/useNow.ts";
+import { fmtMs, formatDuration } from "../lib/format.ts";
+import { MS_PER_MINUTE } from "../sdk/index.ts";
+
+const STEPS = [
+  { label: "+1 min", ms: MS_PER_MINUTE },
+  { label: "+1 h", ms: 60 * MS_PER_MINUTE },
+  { label: "+1 day", ms: 24 * 60 * MS_PER_MINUTE },
+];
+
+/** Floating panel that moves the demo chain's clock forward. */
+export default function DemoControls({
+  simulator,
+}: {
+  simulator: DepositSimulator;
+}) {
+  const queryClient = useQueryClient();
+  const now = useNow();
+  const chainTime = simulator.clock.now();
+  const ahead = chainTime - now;
+  const nextUnlock = simulator.nextUnlockTime();
+
+  const advance = (ms: number) => {
+    simulator.advanceClock(ms);
+    // Lock states are read from the chain; read them again at the new time.
+    void queryClient.invalidateQueries();
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-72 backdrop-blur-xl bg-white/10 rounded-3xl p-5 border border-white/20 shadow-2xl text-sm text-white">
+      <p className="font-semibold">Demo chain</p>
+      <p className="text-slate-300 mt-1">{fmtMs(chainTime)}</p>
+      {ahead >= 1000 && (
+        <p className="text-xs text-slate-400">
+          {formatDuration(ahead)} ahead of your clock
+        </p>
+      )}
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        {STEPS.map(({ label, ms }) => (
+          <button
+            key={label}
+            onClick={() => advance(ms)}
+            className="px-2 py-2 bg-white/10 hover:bg-white/20 rounded-xl border border-white/20 transition-all duration-200"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => nextUnlock !== null && advance(nextUnlock - chainTime)}
+        disabled={nextUnlock === null}
+        className="w-full mt-2 px-2 py-2 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 font-semibold transition-all duration-200 disabled:opacity-50"
+      >
+        {nextUnlock === null
+          ? "Nothing left to unlock"
+          : `Skip to next unlock (${formatDuration(nextUnlock - chainTime)})`}
+      </button>
+    </div>
+  );
+}
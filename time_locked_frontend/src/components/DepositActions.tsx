@@ -0,0 +1,63 @@
+import type { DepositRow } from "../lib/deposits.ts";
+import { formatDuration } from "../lib/format.ts";
+
+interface DepositActionsProps {
+  deposit: DepositRow;
+  address: string | undefined;
+  disabled: boolean;
+  onWithdraw: (as: "depositor" | "recipient") => void;
+}
+
+/** Only the withdrawal the connected wallet can make right now. */
+export default function DepositActions({
+  deposit,
+  address,
+  disabled,
+  onWithdraw,
+}: DepositActionsProps) {
+  const { lock } = deposit;
+  let content;
+  if (!address) {
+    content = (
+      <p className="text-sm text-slate-300">
+        Connect the depositor's or recipient's wallet to withdraw.
+      </p>
+    );
+  } else if (address === deposit.depositor) {
+    // The depositor can take the funds back at any time, locked or not.
+    content = (
+      <button
+        onClick={() => onWithdraw("depositor")}
+        disabled={disabled}
+        className="w-full py-4 rounded-2xl bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50"
+      >
+        {lock?.canRecipientWithdraw ? "Reclaim" : "Cancel and reclaim"}
+      </button>
+    );
+  } else if (!lock) {
+    content = <p className="text-sm text-slate-300">Checking lock state...</p>;
+  } else if (address === deposit.recipient && lock.canRecipientWithdraw) {
+    content = (
+      <button
+        onClick={() => onWithdraw("recipient")}
+        disabled={disabled}
+        className="w-full py-4 rounded-2xl bg-gradient-to-r from-emerald-500 to-green-500 hover:from-emerald-600 hover:to-green-600 text-white font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50"
+      >
+        Claim
+      </button>
+    );
+  } else if (address === deposit.recipient) {
+    content = (
+      <p className="text-sm text-slate-300">
+        You can claim this in {formatDuration(lock.timeUntilUnlock)}.
+      </p>
+    );
+  } else {
+    content = (
+      <p className="text-sm text-slate-300">
+        The connected wallet is neither the depositor nor the recipient.
+      </p>
+    );
+  }
+  return <div className="mt-6">{content}</div>;
+}
@@ -0,0 +1,80 @@
+import type { DepositRow } from "../lib/deposits.ts";
+import type { DepositDirection } from "../lib/depositList.ts";
+import { fmtMs, formatDuration } from "../lib/format.ts";
+import AddressName from "./AddressName.tsx";
+
+interface DepositCardProps {
+  deposit: DepositRow;
+  /** Which side of the deposit the account is on; picks the address shown. */
+  direction?: DepositDirection;
+  selected: boolean;
+  formatAmount: (amount: bigint, coinType: string) => string;
+  onSelect: (deposit: DepositRow) => void;
+}
+
+/** One live deposit in the account's list. */
+export default function DepositCard({
+  deposit,
+  direction = "sent",
+  selected,
+  formatAmount,
+  onSelect,
+}: DepositCardProps) {
+  return (
+    <div
+      className={`p-6 rounded-2xl cursor-pointer transition-all duration-200 border ${
+        selected
+          ? "bg-blue-500/20 border-blue-400 shadow-lg transform scale-[1.02]"
+          : "bg-white/5 border-white/10 hover:bg-white/10 hover:border-white/20"
+      }`}
+      onClick={() => onSelect(deposit)}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex-1">
+          <div className="flex items-center mb-2">
+            <p className="text-xl font-bold text-white">
+              {formatAmount(deposit.balance, deposit.coinType)}
+            </p>
+            <span
+              className={`ml-3 px-3 py-1 text-xs font-semibold rounded-full ${
+                !deposit.lock
+                  ? "bg-white/10 text-slate-300 border border-white/20"
+                  : deposit.lock.canRecipientWithdraw
+                    ? "bg-green-500/20 text-green-300 border border-green-500/30"
+                    : "bg-yellow-500/20 text-yellow-300 border border-yellow-500/30"
+              }`}
+            >
+              {!deposit.lock
+                ? "Checking..."
+                : deposit.lock.canRecipientWithdraw
+                  ? "Unlocked"
+                  : "Locked"}
+            </span>
+          </div>
+          <p className="text-sm text-slate-300 mb-1">
+            {direction === "sent" ? (
+              <>
+                To: <AddressName address={deposit.recipient} />
+              </>
+            ) : (
+              <>
+                From: <AddressName address={deposit.depositor} />
+              </>
+            )}
+          </p>
+          <p className="text-xs text-slate-400">
+            Unlock: {fmtMs(deposit.unlockTime)}
+            {deposit.lock &&
+              !deposit.lock.canRecipientWithdraw &&
+              ` (in ${formatDuration(deposit.lock.timeUntilUnlock)})`}
+          </p>
+        </div>
+        <div className="text-right ml-4">
+          <p className="text-xs text-slate-400">
+            ID: {deposit.objectId.slice(0, 8)}...
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
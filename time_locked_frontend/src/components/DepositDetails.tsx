@@ -0,0 +1,100 @@
+import type { ReactNode } from "react";
+import type { DepositRow } from "../lib/deposits.ts";
+import { fmtMs, formatDuration } from "../lib/format.ts";
+import AddressName from "./AddressName.tsx";
+
+interface DepositDetailsProps {
+  deposit: DepositRow;
+  formatAmount: (amount: bigint, coinType: string) => string;
+  /** Shown next to the title, e.g. a link to the deposit's page. */
+  headerAction?: ReactNode;
+  children?: ReactNode;
+}
+
+/** Parties, amount, dates and chain lock state of one live deposit. */
+export default function DepositDetails({
+  deposit,
+  formatAmount,
+  headerAction,
+  children,
+}: DepositDetailsProps) {
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">Deposit Details</h2>
+        {headerAction}
+      </div>
+
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 gap-4">
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-slate-400 mb-1">Depositor</p>
+            <p className="text-sm text-white">
+              <AddressName address={deposit.depositor} full />
+            </p>
+          </div>
+
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-slate-400 mb-1">Recipient</p>
+            <p className="text-sm text-white">
+              <AddressName address={deposit.recipient} full />
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-sm text-slate-400 mb-1">Amount</p>
+              <p className="text-lg font-bold text-white">
+                {formatAmount(deposit.balance, deposit.coinType)}
+              </p>
+            </div>
+
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-sm text-slate-400 mb-1">Status</p>
+              {!deposit.lock ? (
+                <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold bg-white/10 text-slate-300 border border-white/20">
+                  Unknown
+                </span>
+              ) : deposit.lock.canRecipientWithdraw ? (
+                <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold bg-green-500/20 text-green-300 border border-green-500/30">
+                  <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
+                  Unlocked
+                </span>
+              ) : (
+                <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold bg-yellow-500/20 text-yellow-300 border border-yellow-500/30">
+                  <div className="w-2 h-2 bg-yellow-400 rounded-full mr-2 animate-pulse"></div>
+                  Locked
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-slate-400 mb-1">Start Date</p>
+            <p className="text-white">{fmtMs(deposit.startTime)}</p>
+          </div>
+
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-slate-400 mb-1">Unlock Time</p>
+            <p className="text-white">{fmtMs(deposit.unlockTime)}</p>
+          </div>
+
+          {deposit.lock && (
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+              <p className="text-sm text-slate-400 mb-1">Time Remaining</p>
+              <p className="text-white">
+                {deposit.lock.canRecipientWithdraw
+                  ? "Unlocked"
+                  : formatDuration(deposit.lock.timeUntilUnlock)}
+              </p>
+              <p className="text-xs text-slate-400 mt-1">
+                Chain time: {fmtMs(deposit.lock.chainTime)}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+      {children}
+    </div>
+  );
+}
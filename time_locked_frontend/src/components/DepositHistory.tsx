@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import type { DepositHistoryEntry, DepositLifecycle } from "../sdk/index.ts";
+import {
+  STATUS_LABELS,
+  STATUS_STYLES,
+  depositPath,
+} from "../lib/deposits.ts";
+import { fmtMs, shortId } from "../lib/format.ts";
+import AddressName from "./AddressName.tsx";
+
+type StatusFilter = "all" | DepositLifecycle;
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "active", label: "Active" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "claimed", label: "Claimed" },
+];
+
+interface DepositHistoryProps {
+  entries: DepositHistoryEntry[];
+  address: string;
+  formatAmount: (amount: bigint, coinType: string) => string;
+}
+
+/** Lifecycle of every deposit the account took part in, withdrawn or not. */
+export default function DepositHistory({
+  entries,
+  address,
+  formatAmount,
+}: DepositHistoryProps) {
+  const [filter, setFilter] = useState<StatusFilter>("all");
+  const visible =
+    filter === "all" ? entries : entries.filter((e) => e.status === filter);
+
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 mt-8 border border-white/20 shadow-2xl">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold">History</h2>
+        <div className="flex gap-2">
+          {FILTERS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-4 py-2 text-sm rounded-xl font-medium transition-all duration-200 border ${
+                filter === value
+                  ? "bg-blue-500/20 border-blue-400 text-white"
+                  : "bg-white/5 border-white/10 text-slate-300 hover:bg-white/10"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-center text-slate-300 py-8">No deposits</p>
+      )}
+
+      <div className="space-y-4 max-h-[32rem] overflow-y-auto custom-scrollbar">
+        {visible.map(({ created, withdrawn, status }) => {
+          const sent = created.depositor === address;
+          return (
+            <div
+              key={created.depositId}
+              className="p-6 rounded-2xl bg-white/5 border border-white/10"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center">
+                  <p className="text-lg font-bold text-white">
+                    {formatAmount(created.amount, created.coinType)}
+                  </p>
+                  <span
+                    className={`ml-3 px-3 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status]}`}
+                  >
+                    {STATUS_LABELS[status]}
+                  </span>
+                </div>
+                <Link
+                  to={depositPath(created.depositId)}
+                  className="text-xs text-slate-400 hover:text-white underline-offset-2 hover:underline"
+                >
+                  ID: {shortId(created.depositId)}
+                </Link>
+              </div>
+
+              <p className="text-sm text-slate-300 mb-3">
+                {sent ? "To: " : "From: "}
+                <AddressName
+                  address={sent ? created.recipient : created.depositor}
+                />
+              </p>
+
+              <ol className="space-y-1 text-xs text-slate-400 border-l border-white/20 pl-4">
+                <li>
+                  Created {fmtMs(created.startTime)}, unlocks{" "}
+                  {fmtMs(created.unlockTime)}
+                  <span className="font-mono ml-2" title={created.txDigest}>
+                    tx {shortId(created.txDigest)}
+                  </span>
+                </li>
+                {withdrawn && (
+                  <li>
+                    {status === "cancelled" ? "Cancelled" : "Claimed"}{" "}
+                    {fmtMs(withdrawn.withdrawTime)} (
+                    {formatAmount(withdrawn.amountWithdrawn, withdrawn.coinType)}
+                    )
+                    <span className="font-mono ml-2" title={withdrawn.txDigest}>
+                      tx {shortId(withdrawn.txDigest)}
+                    </span>
+                  </li>
+                )}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { CoinInfo } from "../sdk/index.ts";
+import type {
+  DepositDirection,
+  DepositListFilter,
+  DepositSort,
+  LockFilter,
+} from "../lib/depositList.ts";
+
+interface DepositListControlsProps {
+  direction: DepositDirection;
+  filter: DepositListFilter;
+  /** Coins with a deposit on either tab. */
+  coins: CoinInfo[];
+  onChange: (filter: DepositListFilter) => void;
+}
+
+const SELECT_CLASS =
+  "px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white text-sm focus:border-blue-400 focus:outline-none";
+
+/** Search, lock and coin filters and the sort order for one deposit tab. */
+export default function DepositListControls({
+  direction,
+  filter,
+  coins,
+  onChange,
+}: DepositListControlsProps) {
+  const set = (patch: Partial<DepositListFilter>) =>
+    onChange({ ...filter, ...patch });
+
+  return (
+    <div className="space-y-2 mb-4">
+      <input
+        className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white placeholder-slate-400 text-sm focus:border-blue-400 focus:outline-none"
+        placeholder={`Search by ${direction === "sent" ? "recipient" : "sender"} or object ID`}
+        value={filter.query}
+        onChange={(e) => set({ query: e.target.value })}
+      />
+      <div className="flex flex-wrap gap-2">
+        <select
+          className={SELECT_CLASS}
+          value={filter.lock}
+          onChange={(e) => set({ lock: e.target.value as LockFilter })}
+        >
+          <option value="all" className="bg-black">All states</option>
+          <option value="locked" className="bg-black">Locked</option>
+          <option value="unlocked" className="bg-black">Unlocked</option>
+        </select>
+        <select
+          className={SELECT_CLASS}
+          value={filter.coinType}
+          onChange={(e) => set({ coinType: e.target.value })}
+        >
+          <option value="all" className="bg-black">All coins</option>
+          {coins.map((c) => (
+            <option key={c.coinType} value={c.coinType} className="bg-black">
+              {c.symbol}
+            </option>
+          ))}
+        </select>
+        <select
+          className={SELECT_CLASS}
+          value={filter.sort}
+          onChange={(e) => set({ sort: e.target.value as DepositSort })}
+        >
+          <option value="unlock" className="bg-black">Soonest unlock</option>
+          <option value="amount" className="bg-black">Largest amount</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { CoinTotals, DepositDirection } from "../lib/depositList.ts";
+
+interface DepositTotalsProps {
+  direction: DepositDirection;
+  totals: CoinTotals[];
+  formatAmount: (amount: bigint, coinType: string) => string;
+}
+
+/** What a tab's deposits add up to, one row per coin. */
+export default function DepositTotals({
+  direction,
+  totals,
+  formatAmount,
+}: DepositTotalsProps) {
+  if (totals.length === 0) return null;
+  return (
+    <div className="grid sm:grid-cols-2 gap-2 mb-4">
+      {totals.map((t) => (
+        <div
+          key={t.coinType}
+          className="p-3 rounded-xl bg-white/5 border border-white/10 text-sm"
+        >
+          <p className="text-white font-semibold">
+            {formatAmount(t.total, t.coinType)}
+          </p>
+          <p className="text-xs text-slate-400">
+            {t.count} {t.count === 1 ? "deposit" : "deposits"} ·{" "}
+            {formatAmount(t.unlocked, t.coinType)}{" "}
+            {direction === "sent" ? "awaiting claim" : "claimable now"}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { NETWORKS } from "../networkConfig.ts";
+
+/** Header dropdown that switches the dapp-kit network for the whole app. */
+export default function NetworkSwitcher() {
+  const { network, selectNetwork } = useSuiClientContext();
+
+  return (
+    <select
+      className="px-4 py-3 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 border border-white/20 focus:outline-none"
+      value={network}
+      onChange={(e) => selectNetwork(e.target.value)}
+    >
+      {NETWORKS.map((name) => (
+        <option key={name} value={name} className="bg-black">
+          {name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,111 @@
+import type { BalanceChange } from "@mysten/sui/client";
+import { SUI_COIN_TYPE, type DryRunResult } from "../sdk/index.ts";
+import AddressName from "./AddressName.tsx";
+
+interface PreflightPanelProps {
+  label: string;
+  result: DryRunResult;
+  sender: string;
+  /** The gas sponsor pays the fee rather than `sender`. */
+  sponsored?: boolean;
+  formatAmount: (amount: bigint, coinType: string) => string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function ownerAddress(change: BalanceChange): string | null {
+  const { owner } = change;
+  if (typeof owner === "object" && "AddressOwner" in owner) {
+    return owner.AddressOwner;
+  }
+  return null;
+}
+
+/** Dry-run summary shown before the wallet is asked to sign. */
+export default function PreflightPanel({
+  label,
+  result,
+  sender,
+  sponsored = false,
+  formatAmount,
+  onConfirm,
+  onCancel,
+}: PreflightPanelProps) {
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+      <div className="flex items-center mb-6">
+        <h2 className="text-2xl font-bold">{label}</h2>
+      </div>
+
+      {!result.ok ? (
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30 mb-6">
+          <p className="text-sm font-semibold text-red-300 mb-1">
+            This transaction would fail
+          </p>
+          <p className="text-sm text-red-200">{result.error}</p>
+        </div>
+      ) : (
+        <div className="space-y-4 mb-6">
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-slate-400 mb-1">Estimated gas</p>
+            <p className="text-white">
+              {result.gasCost === null
+                ? "-"
+                : formatAmount(result.gasCost, SUI_COIN_TYPE)}
+              {sponsored && (
+                <span className="text-green-300"> · paid by the sponsor</span>
+              )}
+            </p>
+          </div>
+
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+            <p className="text-sm text-slate-400 mb-2">Balance changes</p>
+            {result.balanceChanges.length === 0 && (
+              <p className="text-white">-</p>
+            )}
+            {result.balanceChanges.map((change, i) => {
+              const owner = ownerAddress(change);
+              const amount = BigInt(change.amount);
+              return (
+                <div key={i} className="flex justify-between text-sm">
+                  <span className="text-slate-300">
+                    {owner === sender ? (
+                      "You"
+                    ) : owner ? (
+                      <AddressName address={owner} />
+                    ) : (
+                      "Shared object"
+                    )}
+                  </span>
+                  <span
+                    className={amount < 0n ? "text-red-300" : "text-green-300"}
+                  >
+                    {amount > 0n ? "+" : ""}
+                    {formatAmount(amount, change.coinType)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-3 rounded-2xl bg-white/10 hover:bg-white/20 text-white font-semibold transition-all duration-200 border border-white/20"
+        >
+          {result.ok ? "Cancel" : "Close"}
+        </button>
+        {result.ok && (
+          <button
+            onClick={onConfirm}
+            className="flex-1 py-3 rounded-2xl bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold transition-all duration-200 shadow-lg"
+          >
+            Sign &amp; Execute
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { isSuiAddress, isSuiNsName } from "../sdk/index.ts";
+import { useAddressNames } from "../hooks/useAddressNames.ts";
+import { shortId } from "../lib/format.ts";
+
+/** Wait for typing to pause before asking the fullnode about a name. */
+const RESOLVE_DELAY_MS = 400;
+
+const inputClass =
+  "w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-purple-400 focus:ring-2 focus:ring-purple-400/50 focus:outline-none transition-all duration-200";
+
+interface RecipientInputProps {
+  value: string;
+  /** `address` is the normalized recipient, or "" while there is none. */
+  onChange: (value: string, address: string) => void;
+}
+
+/** Address or SuiNS name, with suggestions from the address book. */
+export default function RecipientInput({ value, onChange }: RecipientInputProps) {
+  const { contacts, resolver, nameOf, saveContact } = useAddressNames();
+  const [focused, setFocused] = useState(false);
+  const [resolved, setResolved] = useState<{
+    name: string;
+    address: string | null;
+    /** The lookup itself failed; the name may still be registered. */
+    failed?: boolean;
+  } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [label, setLabel] = useState("");
+
+  const input = value.trim();
+  const isName = isSuiNsName(input);
+  const address = isSuiAddress(input)
+    ? normalizeSuiAddress(input)
+    : isName && resolved?.name === input
+      ? resolved.address
+      : null;
+
+  // Parents re-render every second for countdowns; don't restart the
+  // lookup each time they pass a new callback.
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!isName) return;
+    const timer = setTimeout(() => {
+      resolver.resolve(input).then(
+        (a) => {
+          setResolved({ name: input, address: a });
+          onChangeRef.current(value, a ?? "");
+        },
+        () => {
+          setResolved({ name: input, address: null, failed: true });
+          onChangeRef.current(value, "");
+        },
+      );
+    }, RESOLVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isName, input, value, resolver, attempt]);
+
+  const query = input.toLowerCase();
+  const suggestions = focused
+    ? contacts
+        .filter(
+          (c) =>
+            c.address !== address &&
+            (c.label.toLowerCase().includes(query) ||
+              c.address.includes(query)),
+        )
+        .slice(0, 6)
+    : [];
+  const saved = address ? nameOf(address) : null;
+  const canSave =
+    address !== null && !contacts.some((c) => c.address === address);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-300 mb-3">
+        Recipient
+      </label>
+      <div className="relative">
+        <input
+          className={inputClass}
+          placeholder="0xRecipient... or name.sui"
+          value={value}
+          onFocus={() => setFocused(true)}
+          // Let a click on a suggestion land first.
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          onChange={(e) => {
+            const next = e.target.value.trim();
+            onChange(
+              e.target.value,
+              isSuiAddress(next) ? normalizeSuiAddress(next) : "",
+            );
+          }}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-2 w-full rounded-2xl bg-slate-900 border border-white/20 shadow-2xl overflow-hidden">
+            {suggestions.map((c) => (
+              <li key={c.address}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    onChange(c.address, c.address);
+                    setFocused(false);
+                  }}
+                  className="w-full text-left px-4 py-3 hover:bg-white/10"
+                >
+                  <span className="text-white">{c.label}</span>
+                  <span className="ml-2 text-xs font-mono text-slate-400">
+                    {shortId(c.address, 10)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-2 text-xs text-slate-400 space-y-2">
+        {isName && resolved?.name !== input && <p>Looking up {input}...</p>}
+        {isName && resolved?.name === input && resolved.failed && (
+          <p className="text-red-300">
+            Couldn't look up {input}.{" "}
+            <button
+              type="button"
+              onClick={() => {
+                setResolved(null);
+                setAttempt((n) => n + 1);
+              }}
+              className="underline hover:text-white"
+            >
+              Retry
+            </button>
+          </p>
+        )}
+        {isName && resolved?.name === input && !resolved.failed && (
+          <p className={address ? undefined : "text-red-300"}>
+            {address
+              ? `${input} → ${shortId(address, 12)}`
+              : `${input} is not a registered SuiNS name.`}
+          </p>
+        )}
+        {saved && !isName && <p>{saved}</p>}
+        {canSave && (
+          <div className="flex gap-2">
+            <input
+              className="flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:outline-none"
+              placeholder="Label to save this address as"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <button
+              type="button"
+              disabled={!label.trim()}
+              onClick={() => {
+                saveContact({ address, label });
+                setLabel("");
+              }}
+              className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
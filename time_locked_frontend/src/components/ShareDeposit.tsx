@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+
+interface ShareDepositProps {
+  url: string;
+}
+
+/** Copyable link and QR code for sending a deposit to its recipient. */
+export default function ShareDeposit({ url }: ShareDepositProps) {
+  const [copied, setCopied] = useState(false);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy link:", e);
+    }
+  }
+
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+      <h2 className="text-2xl font-bold mb-2">Share</h2>
+      <p className="text-sm text-slate-300 mb-6">
+        Send this link to the recipient so they can claim once it unlocks.
+      </p>
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        <div className="p-3 rounded-2xl bg-white shrink-0">
+          <QRCodeSVG value={url} size={144} />
+        </div>
+        <div className="w-full space-y-3">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="w-full p-3 rounded-xl bg-white/5 border border-white/20 text-xs font-mono text-slate-300 focus:outline-none"
+          />
+          <button
+            onClick={copy}
+            className="w-full py-3 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm font-medium transition-all duration-200 border border-white/20"
+          >
+            {copied ? "Copied!" : "Copy link"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
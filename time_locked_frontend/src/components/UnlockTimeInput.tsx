@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { MS_PER_MINUTE } from "../sdk/index.ts";
+import { useNow } from "../hooks/useNow.ts";
+import { fmtMs } from "../lib/format.ts";
+import {
+  DURATION_PRESETS,
+  minutesUntil,
+  timeZoneLabel,
+  toDateTimeLocal,
+} from "../lib/unlockTime.ts";
+
+const inputClass =
+  "w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-indigo-400 focus:ring-2 focus:ring-indigo-400/50 focus:outline-none transition-all duration-200";
+
+interface UnlockTimeInputProps {
+  durationMinutes: number;
+  onChange: (minutes: number) => void;
+}
+
+/**
+ * Lock duration as minutes, a preset, or an absolute unlock date. The
+ * contract only takes minutes, so a picked date is converted on every tick
+ * to keep the unlock moment fixed while the form sits open.
+ */
+export default function UnlockTimeInput({
+  durationMinutes,
+  onChange,
+}: UnlockTimeInputProps) {
+  const [mode, setMode] = useState<"duration" | "date">("duration");
+  const [unlockAt, setUnlockAt] = useState<number | null>(null);
+  const now = useNow();
+
+  useEffect(() => {
+    if (mode === "date" && unlockAt !== null) {
+      onChange(minutesUntil(unlockAt, now));
+    }
+  }, [mode, unlockAt, now, onChange]);
+
+  const previewAt = now + durationMinutes * MS_PER_MINUTE;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-sm font-medium text-slate-300">
+          {mode === "duration" ? "Lock Duration (minutes)" : "Unlock At"}
+        </label>
+        <button
+          type="button"
+          onClick={() => {
+            if (mode === "duration") onChange(0);
+            setMode(mode === "duration" ? "date" : "duration");
+            setUnlockAt(null);
+          }}
+          className="text-xs text-slate-400 hover:text-white underline-offset-2 hover:underline"
+        >
+          {mode === "duration" ? "Pick a date instead" : "Enter minutes instead"}
+        </button>
+      </div>
+
+      {mode === "duration" ? (
+        <>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            className={inputClass}
+            value={Number.isNaN(durationMinutes) ? "" : durationMinutes}
+            onChange={(e) => onChange(Number(e.target.value || "0"))}
+          />
+          <div className="flex flex-wrap gap-2 mt-3">
+            {DURATION_PRESETS.map(({ label, minutes }) => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => onChange(minutes)}
+                className={`px-3 py-1 text-xs rounded-lg border transition-all duration-200 ${
+                  durationMinutes === minutes
+                    ? "bg-indigo-500/20 border-indigo-400 text-white"
+                    : "bg-white/5 border-white/10 text-slate-300 hover:bg-white/10"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <input
+          type="datetime-local"
+          className={`${inputClass} [color-scheme:dark]`}
+          min={toDateTimeLocal(now + MS_PER_MINUTE)}
+          value={unlockAt === null ? "" : toDateTimeLocal(unlockAt)}
+          onChange={(e) => {
+            const at = new Date(e.target.value).getTime();
+            setUnlockAt(Number.isNaN(at) ? null : at);
+            if (Number.isNaN(at)) onChange(0);
+          }}
+        />
+      )}
+
+      <p className="text-xs text-slate-400 mt-3">
+        {durationMinutes > 0
+          ? `Unlocks around ${fmtMs(previewAt)}`
+          : "Pick when the funds unlock"}{" "}
+        · {timeZoneLabel(now)}
+      </p>
+    </div>
+  );
+}
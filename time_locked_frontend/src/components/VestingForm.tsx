@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import {
+  MAX_DEPOSITS_PER_TRANSACTION,
+  MS_PER_MINUTE,
+  buildVestingSchedule,
+  parseAmount,
+  validateDeposit,
+  type CoinInfo,
+  type Tranche,
+} from "../sdk/index.ts";
+import { fmtMs } from "../lib/format.ts";
+import RecipientInput from "./RecipientInput.tsx";
+
+const INTERVALS = [
+  { label: "Daily", minutes: 1_440 },
+  { label: "Weekly", minutes: 10_080 },
+  { label: "Monthly (30 days)", minutes: 43_200 },
+  { label: "Quarterly (90 days)", minutes: 129_600 },
+];
+
+const inputClass =
+  "w-full p-4 rounded-2xl bg-white/5 border border-white/20 text-white placeholder-slate-400 focus:border-blue-400 focus:ring-2 focus:ring-blue-400/50 focus:outline-none transition-all duration-200";
+const labelClass = "block text-sm font-medium text-slate-300 mb-3";
+
+interface VestingFormProps {
+  depositor: string;
+  coin: CoinInfo;
+  disabled: boolean;
+  formatAmount: (amount: bigint, coinType: string) => string;
+  onSubmit: (recipient: string, tranches: Tranche[]) => void;
+}
+
+/** Builds and previews a schedule of time-locked tranches for one recipient. */
+export default function VestingForm({
+  depositor,
+  coin,
+  disabled,
+  formatAmount,
+  onSubmit,
+}: VestingFormProps) {
+  const [totalInput, setTotalInput] = useState("");
+  const [recipientInput, setRecipientInput] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [startOffsetMinutes, setStartOffsetMinutes] = useState(0);
+  const [cliffMinutes, setCliffMinutes] = useState(0);
+  const [tranches, setTranches] = useState(12);
+  const [intervalMinutes, setIntervalMinutes] = useState(43_200);
+
+  const { schedule, errors } = useMemo(() => {
+    const parsed = parseAmount(totalInput || "0", coin.decimals);
+    if (!parsed.ok) return { schedule: [], errors: [parsed.error] };
+    const total = parsed.amount;
+    if (tranches > MAX_DEPOSITS_PER_TRANSACTION) {
+      return {
+        schedule: [],
+        errors: [
+          `At most ${MAX_DEPOSITS_PER_TRANSACTION} tranches fit in one transaction.`,
+        ],
+      };
+    }
+    try {
+      const schedule = buildVestingSchedule({
+        total,
+        startOffsetMinutes,
+        cliffMinutes,
+        tranches,
+        intervalMinutes,
+      });
+      const errors = validateDeposit(
+        { recipient, ...schedule[0] },
+        depositor,
+      );
+      return { schedule, errors };
+    } catch (e) {
+      return { schedule: [], errors: [(e as Error).message] };
+    }
+  }, [
+    totalInput,
+    coin.decimals,
+    recipient,
+    depositor,
+    startOffsetMinutes,
+    cliffMinutes,
+    tranches,
+    intervalMinutes,
+  ]);
+
+  const touched = totalInput !== "" || recipientInput !== "";
+  const canSubmit = !disabled && schedule.length > 0 && errors.length === 0;
+  const now = Date.now();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className={labelClass}>Total Amount ({coin.symbol})</label>
+        <input
+          className={inputClass}
+          placeholder="Enter total (e.g. 1200)"
+          inputMode="decimal"
+          value={totalInput}
+          onChange={(e) => setTotalInput(e.target.value)}
+        />
+      </div>
+
+      <RecipientInput
+        value={recipientInput}
+        onChange={(input, address) => {
+          setRecipientInput(input);
+          setRecipient(address);
+        }}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Start Offset (minutes)</label>
+          <input
+            type="number"
+            className={inputClass}
+            value={startOffsetMinutes}
+            onChange={(e) =>
+              setStartOffsetMinutes(parseInt(e.target.value || "0"))
+            }
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Cliff (minutes)</label>
+          <input
+            type="number"
+            className={inputClass}
+            value={cliffMinutes}
+            onChange={(e) => setCliffMinutes(parseInt(e.target.value || "0"))}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Tranches</label>
+          <input
+            type="number"
+            className={inputClass}
+            value={tranches}
+            onChange={(e) => setTranches(parseInt(e.target.value || "0"))}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Interval</label>
+          <select
+            className={inputClass}
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+          >
+            {INTERVALS.map(({ label, minutes }) => (
+              <option key={minutes} value={minutes} className="bg-black">
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {touched &&
+        errors.map((error) => (
+          <p key={error} className="text-sm text-red-300">
+            {error}
+          </p>
+        ))}
+
+      {schedule.length > 0 && (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2">
+          {schedule.map((t) => (
+            <div
+              key={t.index}
+              className="flex justify-between p-3 rounded-xl text-sm bg-white/5 border border-white/10 text-slate-300"
+            >
+              <span>
+                #{t.index + 1} · {fmtMs(now + t.durationMinutes * MS_PER_MINUTE)}
+              </span>
+              <span>{formatAmount(t.amount, coin.coinType)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => onSubmit(recipient, schedule)}
+        disabled={!canSubmit}
+        className={`w-full py-4 rounded-2xl font-semibold text-lg transition-all duration-200 ${
+          !canSubmit
+            ? "bg-slate-700 text-slate-400 cursor-not-allowed"
+            : "bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white shadow-lg hover:shadow-xl transform hover:scale-[1.02]"
+        }`}
+      >
+        {canSubmit ? `Create ${schedule.length} Tranches` : "Fill All Fields"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { vestedAmount, type VestingGroup } from "../sdk/index.ts";
+import type { DepositRow } from "../lib/deposits.ts";
+import type { DepositDirection } from "../lib/depositList.ts";
+import { fmtMs } from "../lib/format.ts";
+import AddressName from "./AddressName.tsx";
+import DepositCard from "./DepositCard.tsx";
+
+interface VestingScheduleCardProps {
+  group: VestingGroup;
+  /** Live tranches, by object ID; withdrawn ones are absent. */
+  live: Map<string, DepositRow>;
+  direction?: DepositDirection;
+  selectedDepositId: string;
+  formatAmount: (amount: bigint, coinType: string) => string;
+  onSelect: (deposit: DepositRow) => void;
+}
+
+/** A vesting schedule's progress, expandable to its individual tranches. */
+export default function VestingScheduleCard({
+  group,
+  live,
+  direction = "sent",
+  selectedDepositId,
+  formatAmount,
+  onSelect,
+}: VestingScheduleCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const vested = vestedAmount(group, Date.now());
+  const percent = Number((vested * 100n) / group.total);
+  const next = group.tranches.find((t) => t.created.unlockTime > Date.now());
+
+  return (
+    <div className="p-6 rounded-2xl bg-white/5 border border-purple-400/40">
+      <div
+        className="cursor-pointer"
+        onClick={() => setExpanded((e) => !e)}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-xl font-bold text-white">
+            {formatAmount(group.total, group.coinType)}
+          </p>
+          <span className="px-3 py-1 text-xs font-semibold rounded-full bg-purple-500/20 text-purple-300 border border-purple-500/30">
+            Vesting · {group.tranches.length} tranches
+          </span>
+        </div>
+        <p className="text-sm text-slate-300 mb-3">
+          {direction === "sent" ? (
+            <>
+              To: <AddressName address={group.recipient} />
+            </>
+          ) : (
+            <>
+              From: <AddressName address={group.depositor} />
+            </>
+          )}
+        </p>
+        <div className="h-2 rounded-full bg-white/10 overflow-hidden mb-2">
+          <div
+            className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-xs text-slate-400">
+          <span>
+            Vested {formatAmount(vested, group.coinType)} (
+            {percent}%)
+          </span>
+          <span>
+            {next ? `Next: ${fmtMs(next.created.unlockTime)}` : "Fully vested"}
+          </span>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3 mt-4">
+          {group.tranches.map((tranche) => {
+            const deposit = live.get(tranche.created.depositId);
+            if (deposit) {
+              return (
+                <DepositCard
+                  key={deposit.objectId}
+                  deposit={deposit}
+                  direction={direction}
+                  selected={selectedDepositId === deposit.objectId}
+                  formatAmount={formatAmount}
+                  onSelect={onSelect}
+                />
+              );
+            }
+            return (
+              <div
+                key={tranche.created.depositId}
+                className="px-6 py-3 rounded-2xl bg-white/5 border border-white/10 text-sm text-slate-400 flex justify-between"
+              >
+                <span>
+                  {formatAmount(tranche.created.amount, group.coinType)}
+                </span>
+                <span className="capitalize">{tranche.status}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+
+/** Where the demo chain publishes the `deposit` module. */
+export const DEMO_PACKAGE_ID = normalizeSuiObjectId("0xd3905175");
+
+/** Name of the wallet holding the demo accounts. */
+export const DEMO_WALLET_NAME = "Demo Wallet";
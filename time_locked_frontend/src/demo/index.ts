@@ -0,0 +1,82 @@
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  MS_PER_MINUTE,
+  SUI_COIN_TYPE,
+  TimeDepositClient,
+  type CreateDepositParams,
+} from "../sdk/index.ts";
+import { DEMO_PACKAGE_ID } from "./constants.ts";
+import { DepositSimulator } from "./simulator.ts";
+import { SimulatorTransport } from "./transport.ts";
+import { registerDemoWallet, type DemoAccount } from "./wallet.ts";
+
+const SUI = 1_000_000_000n;
+const USDC_TYPE = `${normalizeSuiAddress("0xc0ffee")}::usdc::USDC`;
+const USDC = 1_000_000n;
+
+export interface DemoChain {
+  simulator: DepositSimulator;
+  client: SuiClient;
+}
+
+/** Same keys on every load, so the demo accounts keep their addresses. */
+function demoAccount(label: string, seed: number): DemoAccount {
+  return {
+    label,
+    keypair: Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(seed)),
+  };
+}
+
+/**
+ * Starts an in-memory chain with the `deposit` module, funds three
+ * accounts, seeds a few deposits between them and registers the demo
+ * wallet. One seeded deposit is already claimable, one unlocks within
+ * minutes and one takes a day.
+ */
+export async function startDemoChain(): Promise<DemoChain> {
+  const simulator = new DepositSimulator({ packageId: DEMO_PACKAGE_ID });
+  const client = new SuiClient({ transport: new SimulatorTransport(simulator) });
+  const timeDeposits = new TimeDepositClient({ client, packageId: DEMO_PACKAGE_ID });
+  const [alice, bob, carol] = [
+    demoAccount("Alice", 1),
+    demoAccount("Bob", 2),
+    demoAccount("Carol", 3),
+  ];
+
+  simulator.registerCoin(USDC_TYPE, { decimals: 6, name: "USD Coin", symbol: "USDC" });
+  for (const { label, keypair } of [alice, bob, carol]) {
+    const address = keypair.toSuiAddress();
+    simulator.registerName(address, `${label.toLowerCase()}.sui`);
+    simulator.mint(address, SUI_COIN_TYPE, 500n * SUI);
+    simulator.mint(address, SUI_COIN_TYPE, 50n * SUI);
+  }
+  // Split across coins, so deposits exercise merging.
+  simulator.mint(bob.keypair.toSuiAddress(), USDC_TYPE, 600n * USDC);
+  simulator.mint(bob.keypair.toSuiAddress(), USDC_TYPE, 400n * USDC);
+
+  const deposit = async (
+    from: DemoAccount,
+    to: DemoAccount,
+    params: Omit<CreateDepositParams, "recipient">,
+  ) => {
+    const tx = timeDeposits.createDeposit({
+      ...params,
+      recipient: to.keypair.toSuiAddress(),
+    });
+    tx.setSender(from.keypair.toSuiAddress());
+    await client.signAndExecuteTransaction({ transaction: tx, signer: from.keypair });
+  };
+  await deposit(carol, bob, { amount: 5n * SUI, durationMinutes: 1 });
+  simulator.advanceClock(MS_PER_MINUTE);
+  await deposit(alice, bob, { amount: 25n * SUI, durationMinutes: 5 });
+  await deposit(bob, alice, {
+    amount: 100n * USDC,
+    durationMinutes: 24 * 60,
+    coinType: USDC_TYPE,
+  });
+
+  registerDemoWallet(client, [alice, bob, carol]);
+  return { simulator, client };
+}
@@ -0,0 +1,240 @@
+import { describe, expect, it } from "vitest";
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import type { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  MAX_DURATION_MINUTES,
+  MS_PER_MINUTE,
+  SUI_COIN_TYPE,
+  TimeDepositClient,
+  WithdrawnBy,
+  decodeAbort,
+  tagVestingTransaction,
+} from "../sdk/index.ts";
+import { DepositSimulator, SimulatedClock } from "./simulator.ts";
+import { SimulatorTransport } from "./transport.ts";
+
+const PACKAGE_ID = normalizeSuiAddress("0xd3905175");
+const USDC = `${normalizeSuiAddress("0xc0ffee")}::usdc::USDC`;
+const SUI = 1_000_000_000n;
+const T0 = 1_700_000_000_000;
+
+const alice = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(1));
+const bob = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(2));
+const carol = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(3));
+
+function setup() {
+  const simulator = new DepositSimulator({
+    packageId: PACKAGE_ID,
+    clock: new SimulatedClock(() => T0),
+  });
+  simulator.registerCoin(USDC, { decimals: 6, name: "USD Coin", symbol: "USDC" });
+  for (const account of [alice, bob, carol]) {
+    simulator.mint(account.toSuiAddress(), SUI_COIN_TYPE, 100n * SUI);
+  }
+  simulator.mint(alice.toSuiAddress(), USDC, 30_000_000n);
+  simulator.mint(alice.toSuiAddress(), USDC, 20_000_000n);
+  const client = new SuiClient({ transport: new SimulatorTransport(simulator) });
+  const deposits = new TimeDepositClient({ client, packageId: PACKAGE_ID });
+
+  const execute = async (tx: Transaction, signer: Ed25519Keypair) => {
+    const res = await client.signAndExecuteTransaction({
+      transaction: tx,
+      signer,
+      options: { showEffects: true, showEvents: true, showObjectChanges: true },
+    });
+    if (res.effects?.status.status !== "success") {
+      throw new Error(res.effects?.status.error);
+    }
+    return res;
+  };
+  const create = async (amount = 10n * SUI, durationMinutes = 60) => {
+    const res = await execute(
+      deposits.createDeposit({
+        amount,
+        recipient: bob.toSuiAddress(),
+        durationMinutes,
+      }),
+      alice,
+    );
+    const created = res.objectChanges?.find(
+      (c) => c.type === "created" && c.objectType.includes("TimeDeposit"),
+    );
+    return created?.type === "created" ? created.objectId : "";
+  };
+  const balance = async (owner: Ed25519Keypair, coinType = SUI_COIN_TYPE) =>
+    BigInt(
+      (await client.getBalance({ owner: owner.toSuiAddress(), coinType }))
+        .totalBalance,
+    );
+  return { simulator, client, deposits, execute, create, balance };
+}
+
+describe("DepositSimulator", () => {
+  it("creates a shared deposit and emits DepositCreated", async () => {
+    const { deposits, create, balance } = setup();
+    const id = await create();
+
+    const deposit = await deposits.getDeposit(id);
+    expect(deposit).toMatchObject({
+      depositor: alice.toSuiAddress(),
+      recipient: bob.toSuiAddress(),
+      balance: 10n * SUI,
+      startTime: T0,
+      duration: 60 * MS_PER_MINUTE,
+      unlockTime: T0 + 60 * MS_PER_MINUTE,
+    });
+    const { data } = await deposits.queryDepositEvents();
+    expect(data).toMatchObject([
+      { kind: "DepositCreated", depositId: id, amount: 10n * SUI },
+    ]);
+    // The deposit and gas leave Alice; the gas is small.
+    const spent = 100n * SUI - (await balance(alice));
+    expect(spent > 10n * SUI && spent < 10n * SUI + SUI / 100n).toBe(true);
+  });
+
+  it("merges other coin types and reports their balance", async () => {
+    const { deposits, execute, balance } = setup();
+    const tx = deposits.createDeposit({
+      amount: 45_000_000n,
+      recipient: bob.toSuiAddress(),
+      durationMinutes: 1,
+      coinType: USDC,
+    });
+    tx.setSender(alice.toSuiAddress());
+    await execute(tx, alice);
+    expect(await balance(alice, USDC)).toBe(5_000_000n);
+    const info = await deposits.getCoinInfo(USDC);
+    expect(info.symbol).toBe("USDC");
+  });
+
+  it("aborts with the module's codes", async () => {
+    const { deposits } = setup();
+    const sender = alice.toSuiAddress();
+    const abortOf = async (params: {
+      recipient?: string;
+      durationMinutes?: number;
+      amount?: bigint;
+    }) =>
+      (
+        await deposits.dryRun(
+          deposits.createDeposit({
+            amount: 1n,
+            recipient: bob.toSuiAddress(),
+            durationMinutes: 1,
+            ...params,
+          }),
+          sender,
+        )
+      ).abort?.abortName;
+
+    expect(await abortOf({ durationMinutes: 0 })).toBe("EInvalidDuration");
+    expect(await abortOf({ durationMinutes: MAX_DURATION_MINUTES + 1 })).toBe(
+      "EDurationTooLong",
+    );
+    expect(await abortOf({ recipient: sender })).toBe("EInvalidRecipient");
+    expect(await abortOf({ amount: 0n })).toBe("EInvalidAmount");
+    expect(await abortOf({})).toBeUndefined();
+  });
+
+  it("holds the deposit until its unlock time", async () => {
+    const { simulator, deposits, execute, create, balance } = setup();
+    const id = await create(10n * SUI, 2);
+
+    let [status] = (await deposits.inspectDeposits([
+      { objectId: id, coinType: SUI_COIN_TYPE },
+    ])).values();
+    expect(status).toMatchObject({
+      canRecipientWithdraw: false,
+      timeUntilUnlock: 2 * MS_PER_MINUTE,
+      chainTime: T0,
+    });
+    await expect(
+      execute(deposits.withdrawByRecipient({ depositId: id }), bob),
+    ).rejects.toSatisfy((e) => decodeAbort(e)?.abortName === "ETooEarly");
+
+    simulator.advanceClock(2 * MS_PER_MINUTE);
+    [status] = (await deposits.inspectDeposits([
+      { objectId: id, coinType: SUI_COIN_TYPE },
+    ])).values();
+    expect(status.canRecipientWithdraw).toBe(true);
+    expect(status.timeUntilUnlock).toBe(0);
+
+    const before = await balance(bob);
+    await execute(deposits.withdrawByRecipient({ depositId: id }), bob);
+    const gained = (await balance(bob)) - before;
+    expect(gained > 9n * SUI && gained <= 10n * SUI).toBe(true);
+    expect(await deposits.getDeposit(id)).toBeNull();
+    expect(
+      await deposits.inspectDeposits([{ objectId: id, coinType: SUI_COIN_TYPE }]),
+    ).toEqual(new Map());
+
+    const { data } = await deposits.queryDepositEvents();
+    expect(data.at(-1)).toMatchObject({
+      kind: "DepositWithdrawn",
+      depositId: id,
+      withdrawer: bob.toSuiAddress(),
+      withdrawTime: T0 + 2 * MS_PER_MINUTE,
+      withdrawnBy: WithdrawnBy.Recipient,
+    });
+  });
+
+  it("lets only the depositor cancel early", async () => {
+    const { deposits, execute, create } = setup();
+    const id = await create();
+
+    const res = await deposits.dryRun(
+      deposits.withdrawByDepositor({ depositId: id }),
+      carol.toSuiAddress(),
+    );
+    expect(res.abort?.abortName).toBe("EUnauthorized");
+
+    await execute(deposits.withdrawByDepositor({ depositId: id }), alice);
+    expect(await deposits.getDeposit(id)).toBeNull();
+    const { data } = await deposits.queryDepositEvents({ order: "descending" });
+    expect(data[0]).toMatchObject({
+      kind: "DepositWithdrawn",
+      withdrawnBy: WithdrawnBy.Depositor,
+    });
+  });
+
+  it("keeps transactions readable, vesting tag included", async () => {
+    const { deposits, execute } = setup();
+    const params = { amount: SUI, recipient: bob.toSuiAddress() };
+    const vesting = await execute(
+      tagVestingTransaction(
+        deposits.createDeposits([
+          { ...params, durationMinutes: 1 },
+          { ...params, durationMinutes: 2 },
+        ]),
+      ),
+      alice,
+    );
+    const bulk = await execute(
+      deposits.createDeposits([
+        { ...params, durationMinutes: 1 },
+        { ...params, durationMinutes: 2 },
+      ]),
+      alice,
+    );
+    expect(
+      await deposits.vestingTransactions([vesting.digest, bulk.digest]),
+    ).toEqual(new Set([vesting.digest]));
+  });
+
+  it("rejects transactions without the sender's signature", async () => {
+    const { client, deposits, simulator } = setup();
+    const tx = deposits.createDeposit({
+      amount: SUI,
+      recipient: bob.toSuiAddress(),
+      durationMinutes: 1,
+    });
+    tx.setSender(alice.toSuiAddress());
+    const bytes = await tx.build({ client });
+    const { signature } = await carol.signTransaction(bytes);
+    await expect(simulator.execute(bytes, [signature])).rejects.toThrow(
+      /Missing a valid signature/,
+    );
+  });
+});
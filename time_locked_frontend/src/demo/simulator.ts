@@ -0,0 +1,1230 @@
+import { bcs } from "@mysten/sui/bcs";
+import type {
+  BalanceChange,
+  CoinMetadata,
+  DevInspectResults,
+  DryRunTransactionBlockResponse,
+  EventId,
+  MoveStruct,
+  ObjectOwner,
+  OwnedObjectRef,
+  PaginatedEvents,
+  SuiEvent,
+  SuiEventFilter,
+  SuiExecutionResult,
+  SuiObjectChange,
+  SuiObjectData,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+  TransactionEffects,
+} from "@mysten/sui/client";
+import {
+  Transaction,
+  TransactionDataBuilder,
+  type Argument,
+  type TransactionData,
+} from "@mysten/sui/transactions";
+import {
+  fromBase58,
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  normalizeSuiObjectId,
+  toHex,
+} from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import {
+  AbortCode,
+  CLOCK_OBJECT_ID,
+  MAX_DURATION_MINUTES,
+  MODULE_NAME,
+  MS_PER_MINUTE,
+  SUI_COIN_TYPE,
+  WithdrawnBy,
+  normalizeCoinType,
+} from "../sdk/index.ts";
+
+/** Gas price the simulated network quotes, in MIST per unit. */
+export const REFERENCE_GAS_PRICE = 1_000n;
+/** Every transaction is charged the network's minimum computation. */
+const COMPUTATION_UNITS = 1_000n;
+/** Storage fee per object written, and the rebate when one is rewritten or freed. */
+const OBJECT_STORAGE_COST = 1_976_000n;
+const OBJECT_STORAGE_REBATE = 1_956_240n;
+/** What the gas coin holds when a simulation doesn't name one, as on a fullnode. */
+const SIMULATION_GAS_BALANCE = 1_000_000_000_000_000_000n;
+/** Budget used by `devInspect`, which pays no gas. */
+const DEV_INSPECT_BUDGET = 50_000_000_000n;
+const SIMULATION_GAS_ID = normalizeSuiObjectId("0x0");
+const CLOCK_ID = normalizeSuiObjectId(CLOCK_OBJECT_ID);
+const SUI = normalizeCoinType(SUI_COIN_TYPE);
+
+/** Entry points of `deposit`, in definition order, as abort locations number them. */
+const DEPOSIT_FUNCTIONS = [
+  "create_deposit",
+  "withdraw_by_depositor",
+  "withdraw_by_recipient",
+  "get_deposit_info",
+  "can_recipient_withdraw",
+  "time_until_unlock",
+] as const;
+type DepositFunction = (typeof DEPOSIT_FUNCTIONS)[number];
+
+const DepositCreatedBcs = bcs.struct("DepositCreated", {
+  deposit_id: bcs.Address,
+  depositor: bcs.Address,
+  recipient: bcs.Address,
+  amount: bcs.u64(),
+  start_time: bcs.u64(),
+  duration: bcs.u64(),
+  unlock_time: bcs.u64(),
+});
+
+const DepositWithdrawnBcs = bcs.struct("DepositWithdrawn", {
+  deposit_id: bcs.Address,
+  withdrawer: bcs.Address,
+  withdraw_time: bcs.u64(),
+  amount_withdrawn: bcs.u64(),
+  withdrawn_by: bcs.u8(),
+});
+
+/**
+ * Chain time: the wall clock plus however far the demo has skipped ahead.
+ * Like the on-chain `Clock` it never runs backwards.
+ */
+export class SimulatedClock {
+  private readonly source: () => number;
+  private offsetMs = 0;
+
+  constructor(source: () => number = Date.now) {
+    this.source = source;
+  }
+
+  now(): number {
+    return Math.floor(this.source()) + this.offsetMs;
+  }
+
+  advance(ms: number) {
+    if (!(ms >= 0)) throw new Error("The clock only moves forward");
+    this.offsetMs += ms;
+  }
+}
+
+interface ObjectMeta {
+  objectId: string;
+  version: number;
+  digest: string;
+  previousTransaction: string;
+}
+
+export interface SimCoin extends ObjectMeta {
+  kind: "coin";
+  coinType: string;
+  /** `null` while the coin is a result inside a transaction. */
+  owner: string | null;
+  balance: bigint;
+}
+
+export interface SimDeposit extends ObjectMeta {
+  kind: "deposit";
+  coinType: string;
+  initialSharedVersion: number;
+  depositor: string;
+  recipient: string;
+  balance: bigint;
+  startTime: number;
+  duration: number;
+  unlockTime: number;
+}
+
+interface SimClockObject extends ObjectMeta {
+  kind: "clock";
+}
+
+export type SimObject = SimCoin | SimDeposit | SimClockObject;
+
+type Mode = "execute" | "dryRun" | "devInspect";
+
+/** A failure inside execution: the transaction is committed with only gas charged. */
+class ExecutionFailure extends Error {}
+
+type Value =
+  | { kind: "object"; id: string }
+  | { kind: "pure"; bytes: Uint8Array };
+
+interface EmittedEvent {
+  name: "DepositCreated" | "DepositWithdrawn";
+  coinType: string;
+  parsedJson: Record<string, unknown>;
+  bcs: string;
+}
+
+interface Outcome {
+  digest: string;
+  error: string | null;
+  effects: TransactionEffects;
+  events: SuiEvent[];
+  objectChanges: SuiObjectChange[];
+  balanceChanges: BalanceChange[];
+  results: SuiExecutionResult[];
+  timestampMs: number;
+  /** Objects after the transaction, committed only by `execute`. */
+  objects: Map<string, SimObject>;
+  deleted: SimObject[];
+}
+
+/** A base58 32-byte hash of `parts`, the shape of Sui digests. */
+function digestOf(...parts: (string | number)[]): string {
+  return TransactionDataBuilder.getDigestFromBytes(
+    new TextEncoder().encode(parts.join(":")),
+  );
+}
+
+function u64Bytes(value: bigint | number): number[] {
+  return Array.from(bcs.u64().serialize(value).toBytes());
+}
+
+/**
+ * An in-memory Sui network with the `time_locked_deposit::deposit` module
+ * published at `packageId`. Transactions are the real BCS bytes the SDK
+ * builds; their commands run against this state with the module's checks,
+ * abort codes and events, and a simplified gas schedule.
+ */
+export class DepositSimulator {
+  readonly packageId: string;
+  readonly clock: SimulatedClock;
+  private objects = new Map<string, SimObject>();
+  private readonly tombstones = new Map<string, SimObject>();
+  private readonly events: SuiEvent[] = [];
+  private readonly transactions = new Map<string, SuiTransactionBlockResponse>();
+  private readonly metadata = new Map<string, CoinMetadata>();
+  private readonly names = new Map<string, string>();
+  private readonly listeners = new Set<() => void>();
+  private lamport = 1;
+  private checkpoint = 0;
+  private nonce = 0;
+
+  constructor({
+    packageId,
+    clock = new SimulatedClock(),
+  }: {
+    packageId: string;
+    clock?: SimulatedClock;
+  }) {
+    this.packageId = normalizeSuiObjectId(packageId);
+    this.clock = clock;
+    this.objects.set(CLOCK_ID, {
+      kind: "clock",
+      objectId: CLOCK_ID,
+      version: 1,
+      digest: digestOf("genesis", CLOCK_ID),
+      previousTransaction: digestOf("genesis"),
+    });
+    this.registerCoin(SUI, { decimals: 9, name: "Sui", symbol: "SUI" });
+  }
+
+  // ----------------
+  // Genesis and controls
+  // ----------------
+
+  registerCoin(
+    coinType: string,
+    { decimals, name, symbol }: Pick<CoinMetadata, "decimals" | "name" | "symbol">,
+  ) {
+    this.metadata.set(normalizeCoinType(coinType), {
+      decimals,
+      name,
+      symbol,
+      description: `${name} on the demo chain`,
+      iconUrl: null,
+      id: null,
+    });
+  }
+
+  /** Gives `owner` a new coin of `amount`, outside of any transaction. */
+  mint(owner: string, coinType: string, amount: bigint): string {
+    const objectId = normalizeSuiObjectId(
+      toHex(fromBase58(digestOf("mint", ++this.nonce))),
+    );
+    this.objects.set(objectId, {
+      kind: "coin",
+      objectId,
+      coinType: normalizeCoinType(coinType),
+      owner: normalizeSuiAddress(owner),
+      balance: amount,
+      version: this.lamport,
+      digest: digestOf(objectId, this.lamport),
+      previousTransaction: digestOf("genesis"),
+    });
+    this.notify();
+    return objectId;
+  }
+
+  /** Registers a SuiNS-style name that resolves to `address`. */
+  registerName(address: string, name: string) {
+    this.names.set(normalizeSuiAddress(address), name);
+  }
+
+  /** Moves chain time forward; deposits unlock as their time passes. */
+  advanceClock(ms: number) {
+    this.clock.advance(ms);
+    this.notify();
+  }
+
+  /** The earliest unlock time still ahead of the clock, if any. */
+  nextUnlockTime(): number | null {
+    const now = this.clock.now();
+    let next: number | null = null;
+    for (const obj of this.objects.values()) {
+      if (obj.kind === "deposit" && obj.unlockTime > now) {
+        next = next === null ? obj.unlockTime : Math.min(next, obj.unlockTime);
+      }
+    }
+    return next;
+  }
+
+  /** Called after every change to the chain, including clock moves. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    for (const listener of this.listeners) listener();
+  }
+
+  // ----------------
+  // Reads
+  // ----------------
+
+  getObject(id: string): SuiObjectResponse {
+    const objectId = normalizeSuiObjectId(id);
+    const obj = this.objects.get(objectId);
+    if (obj) return { data: this.objectData(obj) };
+    const gone = this.tombstones.get(objectId);
+    if (gone) {
+      return {
+        error: {
+          code: "deleted",
+          object_id: objectId,
+          version: String(gone.version),
+          digest: gone.digest,
+        },
+      };
+    }
+    return { error: { code: "notExists", object_id: objectId } };
+  }
+
+  /** `owner`'s coins, of one type if given, ordered by ID. */
+  coins(owner: string, coinType?: string): SimCoin[] {
+    const address = normalizeSuiAddress(owner);
+    const type = coinType && normalizeCoinType(coinType);
+    return [...this.objects.values()]
+      .filter(
+        (obj): obj is SimCoin =>
+          obj.kind === "coin" &&
+          obj.owner === address &&
+          (!type || obj.coinType === type),
+      )
+      .sort((a, b) => a.objectId.localeCompare(b.objectId));
+  }
+
+  coinMetadata(coinType: string): CoinMetadata | null {
+    return this.metadata.get(normalizeCoinType(coinType)) ?? null;
+  }
+
+  nameOf(address: string): string | null {
+    return this.names.get(normalizeSuiAddress(address)) ?? null;
+  }
+
+  addressOf(name: string): string | null {
+    for (const [address, n] of this.names) if (n === name) return address;
+    return null;
+  }
+
+  getTransaction(digest: string): SuiTransactionBlockResponse {
+    const tx = this.transactions.get(digest);
+    if (!tx) throw new Error(`Could not find the referenced transaction [${digest}]`);
+    return tx;
+  }
+
+  /** Events in execution order, filtered and paged like `suix_queryEvents`. */
+  queryEvents(
+    filter: SuiEventFilter,
+    cursor: EventId | null,
+    limit = 50,
+    descending = false,
+  ): PaginatedEvents {
+    const matches = this.events.filter((ev) => eventMatches(ev, filter));
+    if (descending) matches.reverse();
+    let start = 0;
+    if (cursor) {
+      const at = matches.findIndex(
+        (ev) =>
+          ev.id.txDigest === cursor.txDigest &&
+          ev.id.eventSeq === String(cursor.eventSeq),
+      );
+      if (at < 0) throw new Error("Could not find the event cursor");
+      start = at + 1;
+    }
+    const data = matches.slice(start, start + limit);
+    return {
+      data,
+      nextCursor: data.at(-1)?.id ?? cursor,
+      hasNextPage: start + limit < matches.length,
+    };
+  }
+
+  private objectData(obj: SimObject): SuiObjectData {
+    const type = this.typeOf(obj);
+    const id = { id: obj.objectId };
+    const fields: MoveStruct =
+      obj.kind === "coin"
+        ? { id, balance: String(obj.balance) }
+        : obj.kind === "deposit"
+          ? {
+              id,
+              balance: String(obj.balance),
+              depositor: obj.depositor,
+              recipient: obj.recipient,
+              start_time: String(obj.startTime),
+              duration: String(obj.duration),
+              unlock_time: String(obj.unlockTime),
+            }
+          : { id, timestamp_ms: String(this.clock.now()) };
+    return {
+      objectId: obj.objectId,
+      version: String(obj.version),
+      digest: obj.digest,
+      type,
+      owner: ownerOf(obj),
+      previousTransaction: obj.previousTransaction,
+      storageRebate: String(OBJECT_STORAGE_REBATE),
+      content: {
+        dataType: "moveObject",
+        type,
+        hasPublicTransfer: obj.kind === "coin",
+        fields,
+      },
+    };
+  }
+
+  private typeOf(obj: SimObject): string {
+    switch (obj.kind) {
+      case "coin":
+        return `0x2::coin::Coin<${obj.coinType}>`;
+      case "deposit":
+        return `${this.packageId}::${MODULE_NAME}::TimeDeposit<${obj.coinType}>`;
+      case "clock":
+        return "0x2::clock::Clock";
+    }
+  }
+
+  // ----------------
+  // Transactions
+  // ----------------
+
+  /** Executes signed `TransactionData` bytes; failed transactions still pay gas. */
+  async execute(
+    bytes: Uint8Array,
+    signatures: string[],
+  ): Promise<SuiTransactionBlockResponse> {
+    const data = Transaction.from(bytes).getData();
+    const sender = requireSender(data);
+    const signers = new Set<string>();
+    for (const signature of signatures) {
+      const key = await verifyTransactionSignature(bytes, signature);
+      signers.add(key.toSuiAddress());
+    }
+    const gasOwner = normalizeSuiAddress(data.gasData.owner ?? sender);
+    for (const required of new Set([sender, gasOwner])) {
+      if (!signers.has(required)) {
+        throw new Error(`Missing a valid signature from ${required}`);
+      }
+    }
+
+    const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+    if (this.transactions.has(digest)) return this.transactions.get(digest)!;
+    const outcome = this.run(data, sender, "execute", digest);
+    this.objects = outcome.objects;
+    for (const obj of outcome.deleted) this.tombstones.set(obj.objectId, obj);
+    this.events.push(...outcome.events);
+    const signed = bcs.SenderSignedData.serialize([
+      {
+        intentMessage: {
+          intent: {
+            scope: { TransactionData: true },
+            version: { V0: true },
+            appId: { Sui: true },
+          },
+          value: bcs.TransactionData.parse(bytes),
+        },
+        txSignatures: signatures,
+      },
+    ]);
+    const response: SuiTransactionBlockResponse = {
+      digest,
+      rawTransaction: signed.toBase64(),
+      effects: outcome.effects,
+      events: outcome.events,
+      objectChanges: outcome.objectChanges,
+      balanceChanges: outcome.balanceChanges,
+      timestampMs: String(outcome.timestampMs),
+      checkpoint: String(++this.checkpoint),
+      confirmedLocalExecution: true,
+    };
+    this.transactions.set(digest, response);
+    this.notify();
+    return response;
+  }
+
+  /**
+   * Simulates `TransactionData` bytes without committing. With no gas
+   * payment, a simulation coin pays, so the SDK can size the budget.
+   */
+  dryRun(bytes: Uint8Array): Omit<DryRunTransactionBlockResponse, "input"> {
+    const data = Transaction.from(bytes).getData();
+    const outcome = this.run(
+      data,
+      requireSender(data),
+      "dryRun",
+      TransactionDataBuilder.getDigestFromBytes(bytes),
+    );
+    return {
+      effects: outcome.effects,
+      events: outcome.events,
+      objectChanges: outcome.objectChanges,
+      balanceChanges: outcome.balanceChanges,
+    };
+  }
+
+  /** Runs `TransactionKind` bytes as `sender`, returning each command's return values. */
+  devInspect(sender: string, kindBytes: Uint8Array): DevInspectResults {
+    const data = Transaction.fromKind(kindBytes).getData();
+    const outcome = this.run(
+      data,
+      normalizeSuiAddress(sender),
+      "devInspect",
+      digestOf("inspect", ++this.nonce),
+    );
+    return {
+      effects: outcome.effects,
+      events: outcome.events,
+      ...(outcome.error
+        ? { error: outcome.error }
+        : { results: outcome.results }),
+    };
+  }
+
+  private run(
+    data: TransactionData,
+    sender: string,
+    mode: Mode,
+    digest: string,
+  ): Outcome {
+    const before = this.objects;
+    const state = new Map(before);
+    const now = this.clock.now();
+    const checkOwnership = mode !== "devInspect";
+
+    // Input checks happen before execution; failing one rejects the
+    // transaction outright rather than charging gas.
+    for (const input of data.inputs) {
+      const ref = input.Object;
+      if (!ref) continue;
+      const id = normalizeSuiObjectId(
+        ref.ImmOrOwnedObject?.objectId ??
+          ref.SharedObject?.objectId ??
+          ref.Receiving!.objectId,
+      );
+      const obj = state.get(id);
+      if (!obj) throw new Error(`Object ${id} does not exist or was deleted`);
+      if (checkOwnership && ref.ImmOrOwnedObject) {
+        if (obj.kind !== "coin" || obj.owner !== sender) {
+          throw new Error(`Object ${id} is not owned by the sender ${sender}`);
+        }
+        if (String(ref.ImmOrOwnedObject.version) !== String(obj.version)) {
+          throw new Error(
+            `Object ${id} is not available for consumption, its current version: ${obj.version}`,
+          );
+        }
+      }
+    }
+
+    // Gas: payment coins are merged into the first, which holds back the
+    // budget while commands run.
+    const price = BigInt(data.gasData.price ?? REFERENCE_GAS_PRICE);
+    const budget =
+      mode === "devInspect"
+        ? DEV_INSPECT_BUDGET
+        : BigInt(data.gasData.budget ?? 0);
+    const gasOwner = normalizeSuiAddress(data.gasData.owner ?? sender);
+    const payment = mode === "devInspect" ? [] : (data.gasData.payment ?? []);
+    if (price < REFERENCE_GAS_PRICE) {
+      throw new Error(
+        `Gas price ${price} is below the reference price ${REFERENCE_GAS_PRICE}`,
+      );
+    }
+    let gasId: string;
+    if (payment.length === 0) {
+      if (mode === "execute") throw new Error("The transaction has no gas payment");
+      gasId = SIMULATION_GAS_ID;
+      state.set(gasId, {
+        kind: "coin",
+        objectId: gasId,
+        coinType: SUI,
+        owner: gasOwner,
+        balance: SIMULATION_GAS_BALANCE - budget,
+        version: 0,
+        digest: digestOf(gasId, 0),
+        previousTransaction: digest,
+      });
+    } else {
+      let total = 0n;
+      for (const ref of payment) {
+        const id = normalizeSuiObjectId(ref.objectId);
+        const coin = state.get(id);
+        if (coin?.kind !== "coin" || coin.coinType !== SUI || coin.owner !== gasOwner) {
+          throw new Error(`Gas object ${id} is not a SUI coin owned by ${gasOwner}`);
+        }
+        if (String(ref.version) !== String(coin.version)) {
+          throw new Error(
+            `Object ${id} is not available for consumption, its current version: ${coin.version}`,
+          );
+        }
+        total += coin.balance;
+        state.delete(id);
+      }
+      gasId = normalizeSuiObjectId(payment[0].objectId);
+      if (total < budget) {
+        throw new Error(
+          `Balance of gas object ${gasId} is lower than the needed amount: ${budget}`,
+        );
+      }
+      const primary = before.get(gasId) as SimCoin;
+      state.set(gasId, { ...primary, balance: total - budget });
+    }
+    const charged = new Map(state);
+
+    const ptb = new ProgrammableTransaction({
+      packageId: this.packageId,
+      state,
+      data,
+      sender,
+      now,
+      gasId,
+      digest,
+    });
+    let error: string | null = null;
+    let emitted: EmittedEvent[] = [];
+    let working = state;
+    try {
+      ptb.run();
+      emitted = ptb.events;
+    } catch (e) {
+      if (!(e instanceof ExecutionFailure)) throw e;
+      error = e.message;
+      working = new Map(charged);
+    }
+
+    // Every transaction rewrites its gas coin, the simulation coin included
+    // so budgets sized by a simulation hold. Storage is charged per object
+    // written and rebated per object rewritten or freed.
+    const gasCoin = working.get(gasId) as SimCoin;
+    working.set(gasId, { ...gasCoin });
+    const simulatedGas = gasId === SIMULATION_GAS_ID ? 1 : 0;
+    const computationCost = COMPUTATION_UNITS * price;
+    const storage = (changes: ReturnType<typeof diff>) => ({
+      cost:
+        BigInt(changes.created.length + changes.mutated.length + simulatedGas) *
+        OBJECT_STORAGE_COST,
+      rebate:
+        BigInt(changes.mutated.length + changes.deleted.length + simulatedGas) *
+        OBJECT_STORAGE_REBATE,
+    });
+    let changes = diff(before, working);
+    let fees = storage(changes);
+    if (!error && computationCost + fees.cost - fees.rebate > budget) {
+      error = "InsufficientGas";
+      emitted = [];
+      working = new Map(charged);
+      working.set(gasId, { ...(working.get(gasId) as SimCoin) });
+      changes = diff(before, working);
+      fees = storage(changes);
+    }
+    const { cost: storageCost, rebate: storageRebate } = fees;
+    const finalGas = working.get(gasId) as SimCoin;
+    working.set(gasId, {
+      ...finalGas,
+      balance:
+        finalGas.balance + budget - (computationCost + storageCost - storageRebate),
+    });
+
+    // One version for everything the transaction wrote, past all its inputs.
+    const version = this.lamport + 1;
+    if (mode === "execute") this.lamport = version;
+    const written = [...changes.created, ...changes.mutated].map((obj) => {
+      const next: SimObject = {
+        ...(working.get(obj.objectId) as SimObject),
+        version,
+        digest: digestOf(obj.objectId, version, digest),
+        previousTransaction: digest,
+      };
+      if (next.kind === "deposit" && !before.has(next.objectId)) {
+        next.initialSharedVersion = version;
+      }
+      working.set(next.objectId, next);
+      return next;
+    });
+    const isCreated = (obj: SimObject) => !before.has(obj.objectId);
+    const created = written.filter(isCreated);
+    const mutated = written.filter((obj) => !isCreated(obj));
+    const gasRef = working.get(gasId) as SimCoin;
+    if (gasId === SIMULATION_GAS_ID) working.delete(gasId);
+
+    const ref = (obj: SimObject): OwnedObjectRef => ({
+      owner: ownerOf(obj),
+      reference: {
+        objectId: obj.objectId,
+        version: String(obj.version),
+        digest: obj.digest,
+      },
+    });
+    const effects: TransactionEffects = {
+      messageVersion: "v1",
+      status: error ? { status: "failure", error } : { status: "success" },
+      executedEpoch: "0",
+      transactionDigest: digest,
+      gasUsed: {
+        computationCost: String(computationCost),
+        storageCost: String(storageCost),
+        storageRebate: String(storageRebate),
+        nonRefundableStorageFee: "0",
+      },
+      gasObject: ref(gasRef),
+      created: created.map(ref),
+      mutated: mutated.map(ref),
+      deleted: changes.deleted.map((obj) => ({
+        objectId: obj.objectId,
+        version: String(version),
+        digest: obj.digest,
+      })),
+      modifiedAtVersions: [...mutated, ...changes.deleted].map((obj) => ({
+        objectId: obj.objectId,
+        sequenceNumber: String(before.get(obj.objectId)!.version),
+      })),
+      dependencies: [],
+    };
+
+    const objectChanges: SuiObjectChange[] = [
+      ...mutated.map(
+        (obj): SuiObjectChange => ({
+          type: "mutated",
+          sender,
+          owner: ownerOf(obj),
+          objectType: this.typeOf(obj),
+          objectId: obj.objectId,
+          version: String(obj.version),
+          previousVersion: String(before.get(obj.objectId)!.version),
+          digest: obj.digest,
+        }),
+      ),
+      ...changes.deleted.map(
+        (obj): SuiObjectChange => ({
+          type: "deleted",
+          sender,
+          objectType: this.typeOf(obj),
+          objectId: obj.objectId,
+          version: String(version),
+        }),
+      ),
+      ...created.map(
+        (obj): SuiObjectChange => ({
+          type: "created",
+          sender,
+          owner: ownerOf(obj),
+          objectType: this.typeOf(obj),
+          objectId: obj.objectId,
+          version: String(obj.version),
+          digest: obj.digest,
+        }),
+      ),
+    ];
+
+    const events = emitted.map(
+      (ev, i): SuiEvent => ({
+        id: { txDigest: digest, eventSeq: String(i) },
+        packageId: this.packageId,
+        transactionModule: MODULE_NAME,
+        sender,
+        type: `${this.packageId}::${MODULE_NAME}::${ev.name}<${ev.coinType}>`,
+        parsedJson: ev.parsedJson,
+        bcs: ev.bcs,
+        bcsEncoding: "base64",
+        timestampMs: String(now),
+      }),
+    );
+
+    return {
+      digest,
+      error,
+      effects,
+      events,
+      objectChanges,
+      balanceChanges: balanceChanges(before, working, [
+        ...written,
+        ...changes.deleted,
+      ]),
+      results: ptb.results,
+      timestampMs: now,
+      objects: working,
+      deleted: changes.deleted,
+    };
+  }
+}
+
+function requireSender(data: TransactionData): string {
+  if (!data.sender) throw new Error("The transaction has no sender");
+  return normalizeSuiAddress(data.sender);
+}
+
+function ownerOf(obj: SimObject): ObjectOwner {
+  switch (obj.kind) {
+    case "coin":
+      return { AddressOwner: obj.owner ?? normalizeSuiAddress("0x0") };
+    case "deposit":
+      return { Shared: { initial_shared_version: String(obj.initialSharedVersion) } };
+    case "clock":
+      return { Shared: { initial_shared_version: "1" } };
+  }
+}
+
+/** Objects `after` added, rewrote or dropped relative to `before`. */
+function diff(before: Map<string, SimObject>, after: Map<string, SimObject>) {
+  const created: SimObject[] = [];
+  const mutated: SimObject[] = [];
+  const deleted: SimObject[] = [];
+  for (const [id, obj] of after) {
+    const prev = before.get(id);
+    if (!prev) {
+      if (id !== SIMULATION_GAS_ID) created.push(obj);
+    } else if (prev !== obj) {
+      mutated.push(obj);
+    }
+  }
+  for (const [id, prev] of before) if (!after.has(id)) deleted.push(prev);
+  return { created, mutated, deleted };
+}
+
+/** Net change per owner and coin type across the coins a transaction touched. */
+function balanceChanges(
+  before: Map<string, SimObject>,
+  after: Map<string, SimObject>,
+  touched: SimObject[],
+): BalanceChange[] {
+  const totals = new Map<string, { owner: string; coinType: string; amount: bigint }>();
+  const add = (obj: SimObject | undefined, sign: bigint) => {
+    if (obj?.kind !== "coin" || !obj.owner || obj.objectId === SIMULATION_GAS_ID) {
+      return;
+    }
+    const key = `${obj.owner}:${obj.coinType}`;
+    const entry = totals.get(key) ?? {
+      owner: obj.owner,
+      coinType: obj.coinType,
+      amount: 0n,
+    };
+    entry.amount += sign * obj.balance;
+    totals.set(key, entry);
+  };
+  for (const id of new Set(touched.map((obj) => obj.objectId))) {
+    add(before.get(id), -1n);
+    add(after.get(id), 1n);
+  }
+  return [...totals.values()]
+    .filter((t) => t.amount !== 0n)
+    .map((t) => ({
+      owner: { AddressOwner: t.owner },
+      coinType: t.coinType,
+      amount: String(t.amount),
+    }));
+}
+
+function eventMatches(ev: SuiEvent, filter: SuiEventFilter): boolean {
+  if ("MoveEventModule" in filter) {
+    return (
+      normalizeSuiObjectId(filter.MoveEventModule.package) === ev.packageId &&
+      filter.MoveEventModule.module === ev.transactionModule
+    );
+  }
+  if ("MoveEventType" in filter) {
+    return normalizeStructTag(filter.MoveEventType) === normalizeStructTag(ev.type);
+  }
+  if ("Sender" in filter) return normalizeSuiAddress(filter.Sender) === ev.sender;
+  if ("Transaction" in filter) return filter.Transaction === ev.id.txDigest;
+  throw new Error(`Unsupported event filter: ${JSON.stringify(filter)}`);
+}
+
+// Where each check of `deposit` aborts. The bytecode offsets are made up;
+// `decodeAbort` only reads the module, function and code.
+const ABORT_SITES: Record<string, number> = {
+  "create_deposit:EInvalidDuration": 9,
+  "create_deposit:EDurationTooLong": 15,
+  "create_deposit:EInvalidRecipient": 21,
+  "create_deposit:EInvalidAmount": 30,
+  "withdraw_by_depositor:EUnauthorized": 11,
+  "withdraw_by_recipient:EUnauthorized": 14,
+  "withdraw_by_recipient:ETooEarly": 21,
+};
+
+interface ProgrammableTransactionOptions {
+  packageId: string;
+  state: Map<string, SimObject>;
+  data: TransactionData;
+  sender: string;
+  now: number;
+  gasId: string;
+  digest: string;
+}
+
+/** Runs a transaction's commands in order against a working copy of the state. */
+class ProgrammableTransaction {
+  readonly results: SuiExecutionResult[] = [];
+  readonly events: EmittedEvent[] = [];
+  private readonly options: ProgrammableTransactionOptions;
+  private readonly values: Value[][] = [];
+  private created = 0;
+
+  constructor(options: ProgrammableTransactionOptions) {
+    this.options = options;
+  }
+
+  run() {
+    const { data, state } = this.options;
+    data.commands.forEach((command, i) => {
+      try {
+        this.values.push(this.command(command));
+      } catch (e) {
+        if (e instanceof ExecutionFailure) {
+          throw new ExecutionFailure(`${e.message} in command ${i}`);
+        }
+        throw e;
+      }
+    });
+    for (const obj of state.values()) {
+      if (obj.kind === "coin" && obj.owner === null) {
+        throw new ExecutionFailure("UnusedValueWithoutDrop");
+      }
+    }
+  }
+
+  private command(command: TransactionData["commands"][number]): Value[] {
+    const { state } = this.options;
+    let values: Value[] = [];
+    let returnValues: [number[], string][] = [];
+    switch (command.$kind) {
+      case "SplitCoins": {
+        const { coin, amounts } = command.SplitCoins;
+        let source = this.coin(coin, 0);
+        for (const [i, amount] of amounts.entries()) {
+          const value = this.u64(amount, i + 1);
+          if (source.balance < value) throw new ExecutionFailure("InsufficientCoinBalance");
+          source = { ...source, balance: source.balance - value };
+          state.set(source.objectId, source);
+          values.push(this.newCoin(source.coinType, value));
+        }
+        break;
+      }
+      case "MergeCoins": {
+        const { destination, sources } = command.MergeCoins;
+        let target = this.coin(destination, 0);
+        for (const [i, arg] of sources.entries()) {
+          const source = this.coin(arg, i + 1, target.coinType);
+          state.delete(source.objectId);
+          target = { ...target, balance: target.balance + source.balance };
+        }
+        state.set(target.objectId, target);
+        break;
+      }
+      case "TransferObjects": {
+        const { objects, address } = command.TransferObjects;
+        const recipient = this.address(address, objects.length);
+        for (const [i, arg] of objects.entries()) {
+          const coin = this.coin(arg, i);
+          state.set(coin.objectId, { ...coin, owner: recipient });
+        }
+        break;
+      }
+      case "MoveCall": {
+        const call = command.MoveCall;
+        const target = `${normalizeSuiObjectId(call.package)}::${call.module}::${call.function}`;
+        const typeArgs = call.typeArguments.map((t) => normalizeStructTag(t));
+        if (target === `${normalizeSuiObjectId("0x2")}::coin::zero`) {
+          values = [this.newCoin(typeArgs[0], 0n)];
+        } else if (
+          normalizeSuiObjectId(call.package) === this.options.packageId &&
+          call.module === MODULE_NAME &&
+          (DEPOSIT_FUNCTIONS as readonly string[]).includes(call.function)
+        ) {
+          returnValues = this.deposit(
+            call.function as DepositFunction,
+            typeArgs,
+            call.arguments,
+          );
+          values = returnValues.map(([bytes]) => ({
+            kind: "pure",
+            bytes: Uint8Array.from(bytes),
+          }));
+        } else {
+          throw new ExecutionFailure(`FunctionNotFound: ${target}`);
+        }
+        break;
+      }
+      default:
+        throw new ExecutionFailure(`${command.$kind} is not supported by the demo chain`);
+    }
+    this.results.push({ mutableReferenceOutputs: [], returnValues });
+    return values;
+  }
+
+  /** The `deposit` module; returns BCS return values with their types. */
+  private deposit(
+    fn: DepositFunction,
+    [coinType]: string[],
+    args: Argument[],
+  ): [number[], string][] {
+    const { state, sender, now } = this.options;
+    const arity = fn === "create_deposit" ? 4 : 2;
+    if (!coinType || args.length !== arity) {
+      throw new ExecutionFailure("ArityMismatch");
+    }
+    const abort = (name: keyof typeof AbortCode): never => {
+      const address = this.options.packageId.slice(2);
+      throw new ExecutionFailure(
+        `MoveAbort(MoveLocation { module: ModuleId { address: ${address}, name: Identifier("${MODULE_NAME}") }, function: ${DEPOSIT_FUNCTIONS.indexOf(fn)}, instruction: ${ABORT_SITES[`${fn}:${name}`]}, function_name: Some("${fn}") }, ${AbortCode[name]})`,
+      );
+    };
+
+    if (fn === "create_deposit") {
+      const coin = this.coin(args[0], 0, coinType);
+      const recipient = this.address(args[1], 1);
+      const minutes = this.u64(args[2], 2);
+      this.clock(args[3], 3);
+      if (minutes === 0n) abort("EInvalidDuration");
+      if (minutes > BigInt(MAX_DURATION_MINUTES)) abort("EDurationTooLong");
+      if (recipient === sender) abort("EInvalidRecipient");
+      state.delete(coin.objectId);
+      if (coin.balance === 0n) abort("EInvalidAmount");
+
+      const duration = Number(minutes) * MS_PER_MINUTE;
+      const objectId = this.newId();
+      state.set(objectId, {
+        kind: "deposit",
+        objectId,
+        coinType,
+        initialSharedVersion: 0,
+        depositor: sender,
+        recipient,
+        balance: coin.balance,
+        startTime: now,
+        duration,
+        unlockTime: now + duration,
+        version: 0,
+        digest: "",
+        previousTransaction: "",
+      });
+      const event = {
+        deposit_id: objectId,
+        depositor: sender,
+        recipient,
+        amount: coin.balance,
+        start_time: now,
+        duration,
+        unlock_time: now + duration,
+      };
+      // JSON-RPC renders u64s as decimal strings.
+      this.emit(
+        "DepositCreated",
+        coinType,
+        {
+          ...event,
+          amount: String(event.amount),
+          start_time: String(now),
+          duration: String(duration),
+          unlock_time: String(event.unlock_time),
+        },
+        DepositCreatedBcs.serialize(event).toBase64(),
+      );
+      return [];
+    }
+
+    const deposit = this.depositArg(args[0], 0, coinType);
+    this.clock(args[1], 1);
+    switch (fn) {
+      case "get_deposit_info":
+        return [
+          [Array.from(bcs.Address.serialize(deposit.depositor).toBytes()), "address"],
+          [Array.from(bcs.Address.serialize(deposit.recipient).toBytes()), "address"],
+          [u64Bytes(deposit.balance), "u64"],
+          [u64Bytes(deposit.startTime), "u64"],
+          [u64Bytes(deposit.duration), "u64"],
+          [u64Bytes(deposit.unlockTime), "u64"],
+          [u64Bytes(now), "u64"],
+        ];
+      case "can_recipient_withdraw":
+        return [
+          [Array.from(bcs.bool().serialize(now >= deposit.unlockTime).toBytes()), "bool"],
+        ];
+      case "time_until_unlock":
+        return [[u64Bytes(Math.max(0, deposit.unlockTime - now)), "u64"]];
+    }
+
+    const byDepositor = fn === "withdraw_by_depositor";
+    if (sender !== (byDepositor ? deposit.depositor : deposit.recipient)) {
+      abort("EUnauthorized");
+    }
+    if (!byDepositor && now < deposit.unlockTime) abort("ETooEarly");
+    state.delete(deposit.objectId);
+    const coin = this.newCoin(coinType, deposit.balance);
+    const payout = state.get(coin.id) as SimCoin;
+    state.set(coin.id, { ...payout, owner: sender });
+    const event = {
+      deposit_id: deposit.objectId,
+      withdrawer: sender,
+      withdraw_time: now,
+      amount_withdrawn: deposit.balance,
+      withdrawn_by: byDepositor ? WithdrawnBy.Depositor : WithdrawnBy.Recipient,
+    };
+    this.emit(
+      "DepositWithdrawn",
+      coinType,
+      {
+        ...event,
+        withdraw_time: String(now),
+        amount_withdrawn: String(deposit.balance),
+      },
+      DepositWithdrawnBcs.serialize(event).toBase64(),
+    );
+    return [];
+  }
+
+  private emit(
+    name: EmittedEvent["name"],
+    coinType: string,
+    parsedJson: Record<string, unknown>,
+    encoded: string,
+  ) {
+    this.events.push({ name, coinType, parsedJson, bcs: encoded });
+  }
+
+  private newId(): string {
+    return normalizeSuiObjectId(
+      toHex(fromBase58(digestOf(this.options.digest, this.created++))),
+    );
+  }
+
+  /** A coin that exists only as a command result until it is used or sent. */
+  private newCoin(
+    coinType: string,
+    balance: bigint,
+  ): Extract<Value, { kind: "object" }> {
+    const objectId = this.newId();
+    this.options.state.set(objectId, {
+      kind: "coin",
+      objectId,
+      coinType,
+      owner: null,
+      balance,
+      version: 0,
+      digest: "",
+      previousTransaction: "",
+    });
+    return { kind: "object", id: objectId };
+  }
+
+  private value(arg: Argument, index: number): Value {
+    const { data, gasId } = this.options;
+    let value: Value | undefined;
+    switch (arg.$kind) {
+      case "GasCoin":
+        value = { kind: "object", id: gasId };
+        break;
+      case "Input": {
+        const input = data.inputs[arg.Input];
+        if (input?.Pure) {
+          value = { kind: "pure", bytes: fromBase64(input.Pure.bytes) };
+        } else if (input?.Object) {
+          const ref = input.Object;
+          value = {
+            kind: "object",
+            id: normalizeSuiObjectId(
+              ref.ImmOrOwnedObject?.objectId ??
+                ref.SharedObject?.objectId ??
+                ref.Receiving!.objectId,
+            ),
+          };
+        }
+        break;
+      }
+      case "Result":
+        value = this.values[arg.Result]?.[0];
+        break;
+      case "NestedResult":
+        value = this.values[arg.NestedResult[0]]?.[arg.NestedResult[1]];
+        break;
+    }
+    if (!value) throw argumentError(index, "ArgumentWithoutValue");
+    return value;
+  }
+
+  private object(arg: Argument, index: number): SimObject {
+    const value = this.value(arg, index);
+    const obj =
+      value.kind === "object" ? this.options.state.get(value.id) : undefined;
+    if (!obj) throw argumentError(index, "InvalidValueUsage");
+    return obj;
+  }
+
+  private coin(arg: Argument, index: number, coinType?: string): SimCoin {
+    const obj = this.object(arg, index);
+    if (obj.kind !== "coin" || (coinType && obj.coinType !== coinType)) {
+      throw argumentError(index, "TypeMismatch");
+    }
+    return obj;
+  }
+
+  private depositArg(arg: Argument, index: number, coinType: string): SimDeposit {
+    const obj = this.object(arg, index);
+    if (obj.kind !== "deposit" || obj.coinType !== coinType) {
+      throw argumentError(index, "TypeMismatch");
+    }
+    return obj;
+  }
+
+  private clock(arg: Argument, index: number) {
+    if (this.object(arg, index).kind !== "clock") {
+      throw argumentError(index, "TypeMismatch");
+    }
+  }
+
+  private pure(arg: Argument, index: number): Uint8Array {
+    const value = this.value(arg, index);
+    if (value.kind !== "pure") throw argumentError(index, "TypeMismatch");
+    return value.bytes;
+  }
+
+  private u64(arg: Argument, index: number): bigint {
+    const bytes = this.pure(arg, index);
+    if (bytes.length !== 8) throw argumentError(index, "InvalidBCSBytes");
+    return BigInt(bcs.u64().parse(bytes));
+  }
+
+  private address(arg: Argument, index: number): string {
+    const bytes = this.pure(arg, index);
+    if (bytes.length !== 32) throw argumentError(index, "InvalidBCSBytes");
+    return normalizeSuiAddress(bcs.Address.parse(bytes));
+  }
+}
+
+function argumentError(index: number, kind: string) {
+  return new ExecutionFailure(`CommandArgumentError { arg_idx: ${index}, kind: ${kind} }`);
+}
@@ -0,0 +1,194 @@
+import type {
+  CoinBalance,
+  EventId,
+  PaginatedCoins,
+  SuiEventFilter,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedType,
+  SuiTransport,
+  SuiTransportRequestOptions,
+} from "@mysten/sui/client";
+import { fromBase64, normalizeSuiObjectId } from "@mysten/sui/utils";
+import { MODULE_NAME, SUI_COIN_TYPE, normalizeCoinType } from "../sdk/index.ts";
+import { REFERENCE_GAS_PRICE, type DepositSimulator } from "./simulator.ts";
+
+const T0: SuiMoveNormalizedType = { TypeParameter: 0 };
+const CLOCK_REF: SuiMoveNormalizedType = {
+  Reference: {
+    Struct: { address: "0x2", module: "clock", name: "Clock", typeArguments: [] },
+  },
+};
+const TX_CONTEXT: SuiMoveNormalizedType = {
+  MutableReference: {
+    Struct: {
+      address: "0x2",
+      module: "tx_context",
+      name: "TxContext",
+      typeArguments: [],
+    },
+  },
+};
+
+/** Signatures of the functions the demo chain knows, as the resolver reads them. */
+function normalizedFunctions(packageId: string) {
+  const deposit: SuiMoveNormalizedType = {
+    Struct: {
+      address: packageId,
+      module: MODULE_NAME,
+      name: "TimeDeposit",
+      typeArguments: [T0],
+    },
+  };
+  const fn = (
+    parameters: SuiMoveNormalizedType[],
+    returns: SuiMoveNormalizedType[] = [],
+  ): SuiMoveNormalizedFunction => ({
+    visibility: "Public",
+    isEntry: false,
+    typeParameters: [{ abilities: [] }],
+    parameters,
+    return: returns,
+  });
+  const view = (returns: SuiMoveNormalizedType[]) =>
+    fn([{ Reference: deposit }, CLOCK_REF], returns);
+  return new Map<string, SuiMoveNormalizedFunction>([
+    [
+      `${packageId}::${MODULE_NAME}::create_deposit`,
+      fn([
+        {
+          Struct: { address: "0x2", module: "coin", name: "Coin", typeArguments: [T0] },
+        },
+        "Address",
+        "U64",
+        CLOCK_REF,
+        TX_CONTEXT,
+      ]),
+    ],
+    [`${packageId}::${MODULE_NAME}::withdraw_by_depositor`, fn([deposit, CLOCK_REF, TX_CONTEXT])],
+    [`${packageId}::${MODULE_NAME}::withdraw_by_recipient`, fn([deposit, CLOCK_REF, TX_CONTEXT])],
+    [
+      `${packageId}::${MODULE_NAME}::get_deposit_info`,
+      view(["Address", "Address", "U64", "U64", "U64", "U64", "U64"]),
+    ],
+    [`${packageId}::${MODULE_NAME}::can_recipient_withdraw`, view(["Bool"])],
+    [`${packageId}::${MODULE_NAME}::time_until_unlock`, view(["U64"])],
+  ]);
+}
+
+/**
+ * Answers the JSON-RPC methods this app and the SDK's transaction builder
+ * use from a `DepositSimulator`, so a `SuiClient` over it needs no network.
+ */
+export class SimulatorTransport implements SuiTransport {
+  readonly simulator: DepositSimulator;
+  private readonly functions: Map<string, SuiMoveNormalizedFunction>;
+
+  constructor(simulator: DepositSimulator) {
+    this.simulator = simulator;
+    this.functions = normalizedFunctions(simulator.packageId);
+  }
+
+  async request<T>({ method, params }: SuiTransportRequestOptions): Promise<T> {
+    return this.dispatch(method, params) as T;
+  }
+
+  async subscribe(): Promise<() => Promise<boolean>> {
+    throw new Error("The demo chain doesn't support subscriptions");
+  }
+
+  private async dispatch(method: string, params: unknown[]): Promise<unknown> {
+    const sim = this.simulator;
+    switch (method) {
+      case "sui_getObject":
+        return sim.getObject(params[0] as string);
+      case "sui_multiGetObjects":
+        return (params[0] as string[]).map((id) => sim.getObject(id));
+      case "suix_getCoins": {
+        const [owner, coinType, cursor, limit] = params as [
+          string,
+          string | null,
+          string | null,
+          number | null,
+        ];
+        return this.coinsPage(owner, coinType ?? SUI_COIN_TYPE, cursor, limit);
+      }
+      case "suix_getBalance":
+        return this.balance(params[0] as string, (params[1] as string) ?? SUI_COIN_TYPE);
+      case "suix_getAllBalances": {
+        const types = new Set(sim.coins(params[0] as string).map((c) => c.coinType));
+        return [...types].map((type) => this.balance(params[0] as string, type));
+      }
+      case "suix_getCoinMetadata":
+        return sim.coinMetadata(params[0] as string);
+      case "suix_getReferenceGasPrice":
+        return String(REFERENCE_GAS_PRICE);
+      case "sui_getNormalizedMoveFunction": {
+        const [pkg, module, fn] = params as string[];
+        const target = `${normalizeSuiObjectId(pkg)}::${module}::${fn}`;
+        const def = this.functions.get(target);
+        if (!def) throw new Error(`No function was found with function name ${target}`);
+        return def;
+      }
+      case "sui_dryRunTransactionBlock":
+        return sim.dryRun(fromBase64(params[0] as string));
+      case "sui_devInspectTransactionBlock":
+        return sim.devInspect(params[0] as string, fromBase64(params[1] as string));
+      case "sui_executeTransactionBlock":
+        return sim.execute(fromBase64(params[0] as string), params[1] as string[]);
+      case "sui_getTransactionBlock":
+        return sim.getTransaction(params[0] as string);
+      case "sui_multiGetTransactionBlocks":
+        return (params[0] as string[]).map((digest) => sim.getTransaction(digest));
+      case "suix_queryEvents": {
+        const [filter, cursor, limit, descending] = params as [
+          SuiEventFilter,
+          EventId | null,
+          number | null,
+          boolean,
+        ];
+        return sim.queryEvents(filter, cursor, limit ?? undefined, descending);
+      }
+      case "suix_resolveNameServiceNames": {
+        const name = sim.nameOf(params[0] as string);
+        return { data: name ? [name] : [], hasNextPage: false, nextCursor: null };
+      }
+      case "suix_resolveNameServiceAddress":
+        return sim.addressOf(params[0] as string);
+      default:
+        throw new Error(`${method} is not supported by the demo chain`);
+    }
+  }
+
+  private coinsPage(
+    owner: string,
+    coinType: string,
+    cursor: string | null,
+    limit: number | null,
+  ): PaginatedCoins {
+    const coins = this.simulator.coins(owner, coinType);
+    const start = cursor ? coins.findIndex((c) => c.objectId === cursor) + 1 : 0;
+    const page = coins.slice(start, start + (limit ?? 50));
+    return {
+      data: page.map((c) => ({
+        coinObjectId: c.objectId,
+        coinType: c.coinType,
+        balance: String(c.balance),
+        version: String(c.version),
+        digest: c.digest,
+        previousTransaction: c.previousTransaction,
+      })),
+      nextCursor: page.at(-1)?.objectId ?? null,
+      hasNextPage: start + page.length < coins.length,
+    };
+  }
+
+  private balance(owner: string, coinType: string): CoinBalance {
+    const coins = this.simulator.coins(owner, coinType);
+    return {
+      coinType: normalizeCoinType(coinType),
+      coinObjectCount: coins.length,
+      totalBalance: String(coins.reduce((sum, c) => sum + c.balance, 0n)),
+      lockedBalance: {},
+    };
+  }
+}
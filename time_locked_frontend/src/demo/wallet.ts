@@ -0,0 +1,124 @@
+import type { SuiClient } from "@mysten/sui/client";
+import type { Keypair } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import {
+  ReadonlyWalletAccount,
+  SUI_CHAINS,
+  getWallets,
+  type StandardConnectFeature,
+  type StandardEventsFeature,
+  type SuiFeatures,
+  type Wallet,
+  type WalletAccount,
+  type WalletIcon,
+} from "@mysten/wallet-standard";
+import { DEMO_WALLET_NAME } from "./constants.ts";
+
+const ICON: WalletIcon = `data:image/svg+xml;base64,${btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="8" fill="#7c3aed"/><path d="M10 14v-3a6 6 0 0 1 12 0v3" stroke="#fff" stroke-width="2.5" fill="none"/><rect x="8" y="14" width="16" height="12" rx="2" fill="#fff"/></svg>',
+)}`;
+
+export interface DemoAccount {
+  label: string;
+  keypair: Keypair;
+}
+
+/**
+ * A wallet-standard wallet holding several demo accounts at once, signing
+ * with their keypairs and executing through `client`. It approves every
+ * request, so it only belongs on the demo chain.
+ */
+class DemoWallet implements Wallet {
+  readonly version = "1.0.0";
+  readonly name = DEMO_WALLET_NAME;
+  readonly icon = ICON;
+  readonly chains = SUI_CHAINS;
+  readonly accounts: WalletAccount[];
+  private readonly client: SuiClient;
+  private readonly keypairs = new Map<string, Keypair>();
+
+  constructor(client: SuiClient, accounts: DemoAccount[]) {
+    this.client = client;
+    this.accounts = accounts.map(({ label, keypair }) => {
+      const address = keypair.toSuiAddress();
+      this.keypairs.set(address, keypair);
+      return new ReadonlyWalletAccount({
+        address,
+        label,
+        publicKey: keypair.getPublicKey().toSuiBytes(),
+        chains: SUI_CHAINS,
+        features: ["sui:signTransaction", "sui:signAndExecuteTransaction"],
+      });
+    });
+  }
+
+  get features(): StandardConnectFeature & StandardEventsFeature & SuiFeatures {
+    return {
+      "standard:connect": {
+        version: "1.0.0",
+        connect: async () => ({ accounts: this.accounts }),
+      },
+      "standard:events": {
+        version: "1.0.0",
+        // The accounts never change, so there is nothing to report.
+        on: () => () => {},
+      },
+      "sui:signPersonalMessage": {
+        version: "1.1.0",
+        signPersonalMessage: ({ message, account }) =>
+          this.keypair(account).signPersonalMessage(message),
+      },
+      "sui:signTransaction": {
+        version: "2.0.0",
+        signTransaction: async ({ transaction, account, signal }) => {
+          const signed = await this.sign(await transaction.toJSON(), account);
+          signal?.throwIfAborted();
+          return signed;
+        },
+      },
+      "sui:signAndExecuteTransaction": {
+        version: "2.0.0",
+        signAndExecuteTransaction: async ({ transaction, account, signal }) => {
+          const { bytes, signature } = await this.sign(
+            await transaction.toJSON(),
+            account,
+          );
+          signal?.throwIfAborted();
+          const { digest, rawEffects } = await this.client.executeTransactionBlock({
+            transactionBlock: bytes,
+            signature,
+            options: { showRawEffects: true },
+          });
+          return {
+            bytes,
+            signature,
+            digest,
+            effects: toBase64(new Uint8Array(rawEffects ?? [])),
+          };
+        },
+      },
+    };
+  }
+
+  private keypair(account: WalletAccount): Keypair {
+    const keypair = this.keypairs.get(account.address);
+    if (!keypair) throw new Error(`${account.address} isn't a demo account`);
+    return keypair;
+  }
+
+  private sign(json: string, account: WalletAccount) {
+    return Transaction.from(json).sign({
+      client: this.client,
+      signer: this.keypair(account),
+    });
+  }
+}
+
+/** Registers the demo wallet with the page; returns a function that removes it. */
+export function registerDemoWallet(
+  client: SuiClient,
+  accounts: DemoAccount[],
+): () => void {
+  return getWallets().register(new DemoWallet(client, accounts));
+}
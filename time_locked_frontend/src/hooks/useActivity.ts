@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react";
+import type { ActivityEntry } from "../lib/activity.ts";
+
+export type NoticeTone = "info" | "error";
+
+export interface ActivityApi {
+  /** The connected account's transactions on the current network. */
+  entries: ActivityEntry[];
+  /** Records a new pending transaction and toasts it; returns its ID. */
+  start: (label: string) => string;
+  update: (
+    id: string,
+    patch: Partial<Omit<ActivityEntry, "id" | "network" | "account">>,
+  ) => void;
+  /** A short toast that is not a transaction. */
+  notify: (message: string, tone?: NoticeTone) => void;
+}
+
+export const ActivityContext = createContext<ActivityApi | null>(null);
+
+export function useActivity(): ActivityApi {
+  const api = useContext(ActivityContext);
+  if (!api) throw new Error("useActivity must be used inside ActivityProvider");
+  return api;
+}
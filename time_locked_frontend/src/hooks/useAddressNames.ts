@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { NameResolver } from "../sdk/index.ts";
+import type { Contact } from "../lib/addressBook.ts";
+
+export interface AddressNamesApi {
+  contacts: Contact[];
+  saveContact: (contact: Contact) => void;
+  removeContact: (address: string) => void;
+  resolver: NameResolver;
+  /** Starts a SuiNS reverse lookup unless one is cached or in flight. */
+  request: (address: string) => void;
+  /** Address book label, else SuiNS name, else `null`. */
+  nameOf: (address: string) => string | null;
+}
+
+export const AddressNamesContext = createContext<AddressNamesApi | null>(null);
+
+export function useAddressNames(): AddressNamesApi {
+  const api = useContext(AddressNamesContext);
+  if (!api) {
+    throw new Error("useAddressNames must be used inside AddressNamesProvider");
+  }
+  return api;
+}
@@ -0,0 +1,310 @@
+import { useEffect, useMemo } from "react";
+import {
+  keepPreviousData,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import {
+  DepositIndex,
+  IndexerClient,
+  MemoryEventStore,
+  groupVestingSchedules,
+  parseDepositEvent,
+  recordToHistoryEntry,
+  syncDepositEvents,
+  vestingCandidates,
+  type DepositHistoryEntry,
+  type TimeDepositClient,
+} from "../sdk/index.ts";
+import { DepositLoader } from "../lib/depositLoader.ts";
+import { POLL_INTERVAL_MS, type DepositRow } from "../lib/deposits.ts";
+import { IndexedDbEventStore } from "../lib/indexedDbEventStore.ts";
+import { DEMO_MODE, useNetworkVariable } from "../networkConfig.ts";
+import { useTimeDeposits } from "./useTimeDeposits.ts";
+
+/** Chain clock readings trail the wall clock; give it a moment to catch up. */
+const UNLOCK_RECHECK_DELAY_MS = 2_000;
+/** setTimeout fires immediately for delays past 2^31 - 1 ms. */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+type Scope = readonly [string, string, string];
+
+const NO_ENTRIES: DepositHistoryEntry[] = [];
+
+/**
+ * Query keys, scoped to a network and the package's original ID. Each live
+ * deposit is cached once under its ID, whichever list or page read it.
+ */
+export const depositKeys = {
+  scope: (network: string, originalPackageId: string): Scope => [
+    "deposits",
+    network,
+    originalPackageId,
+  ],
+  /** One live deposit with its lock state; `null` once withdrawn. */
+  deposit: (scope: Scope, id: string) => [...scope, "deposit", id] as const,
+  /** An address's deposits, from the indexer. */
+  history: (scope: Scope, address: string) =>
+    [...scope, "history", address] as const,
+  /** One deposit's events, from the indexer. */
+  entry: (scope: Scope, id: string) => [...scope, "entry", id] as const,
+  /** Every module event, when scanning them without an indexer. */
+  events: (scope: Scope) => [...scope, "events"] as const,
+  cachedEvents: (scope: Scope) => [...scope, "cached-events"] as const,
+  /** Which of these transactions carry the vesting tag. */
+  vesting: (scope: Scope, digests: string[]) =>
+    [...scope, "vesting", digests] as const,
+};
+
+const loaders = new WeakMap<TimeDepositClient, DepositLoader>();
+
+function useDepositSource() {
+  const { network } = useSuiClientContext();
+  const indexerUrl = useNetworkVariable("indexerUrl");
+  const timeDeposits = useTimeDeposits();
+  const { originalPackageId } = timeDeposits;
+  const scope = useMemo(
+    () => depositKeys.scope(network, originalPackageId),
+    [network, originalPackageId],
+  );
+  let loader = loaders.get(timeDeposits);
+  if (!loader) {
+    loader = new DepositLoader(timeDeposits);
+    loaders.set(timeDeposits, loader);
+  }
+  return { network, indexerUrl, timeDeposits, scope, loader };
+}
+
+/**
+ * All module events, synced into IndexedDB from its stored cursor. The
+ * stored copy stands in while the first sync of a session runs.
+ */
+function useModuleEvents(enabled: boolean) {
+  const { network, timeDeposits, scope } = useDepositSource();
+  const store = useMemo(
+    () =>
+      // The demo chain starts over on every load; a cache would outlive it.
+      DEMO_MODE
+        ? new MemoryEventStore()
+        : new IndexedDbEventStore(network, timeDeposits.originalPackageId),
+    [network, timeDeposits],
+  );
+  const cached = useQuery({
+    queryKey: depositKeys.cachedEvents(scope),
+    queryFn: async () => (await store.load()).events,
+    enabled,
+    staleTime: Infinity,
+  });
+  return useQuery({
+    queryKey: depositKeys.events(scope),
+    queryFn: async () => (await syncDepositEvents(timeDeposits, store)).events,
+    enabled,
+    placeholderData: cached.data,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+}
+
+/**
+ * Every deposit each address sent or received, newest first, from the
+ * indexer when one is configured and from module events otherwise. Polls
+ * while the page is visible.
+ */
+export function useDepositHistories(addresses: string[]) {
+  const { indexerUrl, timeDeposits, scope } = useDepositSource();
+  const enabled = !!timeDeposits.packageId && addresses.length > 0;
+  const events = useModuleEvents(enabled && !indexerUrl);
+  const indexed = useQueries({
+    queries: addresses.map((address) => ({
+      queryKey: depositKeys.history(scope, address),
+      queryFn: () => new IndexerClient(indexerUrl).historyFor(address),
+      enabled: enabled && !!indexerUrl,
+      refetchInterval: POLL_INTERVAL_MS,
+    })),
+  });
+  const addressKey = addresses.join();
+  const scanned = useMemo(() => {
+    const index = new DepositIndex(events.data ?? []);
+    return addressKey ? addressKey.split(",").map((a) => index.historyFor(a)) : [];
+  }, [events.data, addressKey]);
+
+  if (indexerUrl) {
+    return {
+      histories: indexed.map((q) => q.data ?? NO_ENTRIES),
+      isLoading: indexed.some((q) => q.isLoading),
+      isFetching: indexed.some((q) => q.isFetching),
+      error: indexed.find((q) => q.error)?.error ?? null,
+      refetch: () => Promise.all(indexed.map((q) => q.refetch())),
+    };
+  }
+  return {
+    histories: scanned,
+    isLoading: events.isLoading,
+    isFetching: events.isFetching,
+    error: events.error,
+    refetch: () => events.refetch(),
+  };
+}
+
+/** `useDepositHistories` for one address, or none while disconnected. */
+export function useDepositHistory(address: string | undefined) {
+  const { histories, ...rest } = useDepositHistories(address ? [address] : []);
+  return { entries: histories[0] ?? NO_ENTRIES, ...rest };
+}
+
+const NO_DIGESTS: ReadonlySet<string> = new Set();
+
+/**
+ * Vesting schedules among `entries`. Transactions that could have created
+ * one are checked for the vesting tag; being immutable, once is enough.
+ */
+export function useVestingSchedules(entries: DepositHistoryEntry[]) {
+  const { timeDeposits, scope } = useDepositSource();
+  const candidates = vestingCandidates(entries).sort();
+  const { data } = useQuery({
+    queryKey: depositKeys.vesting(scope, candidates),
+    queryFn: () => timeDeposits.vestingTransactions(candidates),
+    enabled: candidates.length > 0,
+    staleTime: Infinity,
+    placeholderData: keepPreviousData,
+  });
+  return useMemo(
+    () => groupVestingSchedules(entries, data ?? NO_DIGESTS),
+    [entries, data],
+  );
+}
+
+/**
+ * Live deposits with their on-chain lock state, read in batches. IDs that
+ * turn out to be withdrawn are left out. Lock state is re-read when the
+ * next of them unlocks.
+ */
+export function useDeposits(ids: string[]) {
+  const { scope, loader } = useDepositSource();
+  const queryClient = useQueryClient();
+  const results = useQueries({
+    queries: ids.map((id) => ({
+      queryKey: depositKeys.deposit(scope, id),
+      queryFn: () => loader.load(id),
+      staleTime: POLL_INTERVAL_MS,
+    })),
+  });
+  const deposits = results.flatMap((r) => (r.data ? [r.data] : []));
+
+  const locked = deposits.filter(
+    (d) => d.lock && !d.lock.canRecipientWithdraw,
+  );
+  const nextUnlock = Math.min(
+    ...locked.map((d) => d.lock!.observedAt + d.lock!.timeUntilUnlock),
+  );
+  const lockedIds = locked.map((d) => d.objectId).join();
+  useEffect(() => {
+    if (!Number.isFinite(nextUnlock)) return;
+    const delay = Math.min(Math.max(0, nextUnlock - Date.now()), MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => {
+      for (const id of lockedIds.split(",")) {
+        queryClient.invalidateQueries({
+          queryKey: depositKeys.deposit(scope, id),
+        });
+      }
+    }, delay + UNLOCK_RECHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [queryClient, scope, nextUnlock, lockedIds]);
+
+  return {
+    deposits,
+    isLoading: results.some((r) => r.isLoading),
+    error: results.find((r) => r.error)?.error ?? null,
+  };
+}
+
+/** One live deposit; `null` once it has been withdrawn or doesn't exist. */
+export function useDeposit(id: string | null) {
+  const { scope, loader } = useDepositSource();
+  return useQuery({
+    queryKey: depositKeys.deposit(scope, id ?? ""),
+    queryFn: () => loader.load(id!),
+    enabled: !!id,
+    staleTime: POLL_INTERVAL_MS,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+}
+
+/** A deposit's events, to describe it after it has been withdrawn. */
+export function useDepositEntry(id: string | null, enabled: boolean) {
+  const { indexerUrl, timeDeposits, scope } = useDepositSource();
+  const on = enabled && !!id && !!timeDeposits.packageId;
+  const events = useModuleEvents(on && !indexerUrl);
+  const record = useQuery({
+    queryKey: depositKeys.entry(scope, id ?? ""),
+    queryFn: async () => {
+      const r = await new IndexerClient(indexerUrl).getDeposit(id!);
+      return r && recordToHistoryEntry(r);
+    },
+    enabled: on && !!indexerUrl,
+  });
+  const entry = useMemo(
+    () => (id && events.data && new DepositIndex(events.data).entry(id)) || null,
+    [id, events.data],
+  );
+
+  if (indexerUrl) {
+    return {
+      entry: record.data ?? null,
+      isPending: on && record.isPending,
+      error: record.error,
+    };
+  }
+  return {
+    entry,
+    // The stored events may simply not have caught up yet.
+    isPending: on && (events.isPending || (!entry && events.isPlaceholderData)),
+    error: events.error,
+  };
+}
+
+/**
+ * Invalidates exactly what one of our transactions touched: the deposits it
+ * created or withdrew, and the histories of everyone party to them.
+ */
+export function useInvalidateDeposits() {
+  const queryClient = useQueryClient();
+  const { scope } = useDepositSource();
+
+  return (receipt: SuiTransactionBlockResponse) => {
+    const ids = new Set<string>();
+    const addresses = new Set<string>();
+    for (const raw of receipt.events ?? []) {
+      const event = parseDepositEvent(raw);
+      if (!event) continue;
+      ids.add(event.depositId);
+      if (event.kind === "DepositCreated") {
+        addresses.add(event.depositor);
+        addresses.add(event.recipient);
+      } else {
+        addresses.add(event.withdrawer);
+        const row = queryClient.getQueryData<DepositRow | null>(
+          depositKeys.deposit(scope, event.depositId),
+        );
+        if (row) {
+          addresses.add(row.depositor);
+          addresses.add(row.recipient);
+        }
+      }
+    }
+    if (ids.size === 0) return;
+
+    for (const id of ids) {
+      queryClient.invalidateQueries({ queryKey: depositKeys.deposit(scope, id) });
+      queryClient.invalidateQueries({ queryKey: depositKeys.entry(scope, id) });
+    }
+    for (const address of addresses) {
+      queryClient.invalidateQueries({
+        queryKey: depositKeys.history(scope, address),
+      });
+    }
+    queryClient.invalidateQueries({ queryKey: depositKeys.events(scope) });
+  };
+}
@@ -0,0 +1,27 @@
+import { useSuiClient } from "@mysten/dapp-kit";
+import type { SuiClient } from "@mysten/sui/client";
+import { TimeDepositClient } from "../sdk/index.ts";
+import { useNetworkVariable } from "../networkConfig.ts";
+
+// One client per node and package, so every component shares its caches.
+const clients = new WeakMap<SuiClient, Map<string, TimeDepositClient>>();
+
+/** The SDK client for the selected network's deployment. */
+export function useTimeDeposits(): TimeDepositClient {
+  const client = useSuiClient();
+  const packageId = useNetworkVariable("packageId");
+  const packageVersions = useNetworkVariable("packageVersions");
+
+  let byPackage = clients.get(client);
+  if (!byPackage) {
+    byPackage = new Map();
+    clients.set(client, byPackage);
+  }
+  const key = [...packageVersions, packageId].join();
+  let timeDeposits = byPackage.get(key);
+  if (!timeDeposits) {
+    timeDeposits = new TimeDepositClient({ client, packageId, packageVersions });
+    byPackage.set(key, timeDeposits);
+  }
+  return timeDeposits;
+}
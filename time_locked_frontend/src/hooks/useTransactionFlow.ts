@@ -0,0 +1,166 @@
+import { useState } from "react";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSignTransaction,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import { useActivity } from "./useActivity.ts";
+import { useInvalidateDeposits } from "./useDeposits.ts";
+import { useTimeDeposits } from "./useTimeDeposits.ts";
+import {
+  SUI_COIN_TYPE,
+  SponsorClient,
+  createdDepositIds,
+  describeError,
+  type DryRunResult,
+  type SponsoredTransaction,
+} from "../sdk/index.ts";
+import { useNetworkVariable } from "../networkConfig.ts";
+
+/** Below 0.01 SUI, sponsorable transactions ask the sponsor for gas. */
+const SPONSOR_BELOW_MIST = 10_000_000n;
+
+export interface PendingAction {
+  label: string;
+  tx: Transaction;
+  result: DryRunResult;
+  /** Set when the sponsor pays the gas; these exact bytes get signed. */
+  sponsored: SponsoredTransaction | null;
+  /** May return a summary to show on the settled transaction. */
+  onSuccess?: (receipt: SuiTransactionBlockResponse) => string | void;
+}
+
+export interface PrepareOptions {
+  /**
+   * The sponsor may pay for this transaction (recipients' claims only), if
+   * one is configured and the account can't cover the gas itself.
+   */
+  sponsorable?: boolean;
+}
+
+/**
+ * Dry-run, confirm, sign: `prepare` shows the pre-flight result in
+ * `pending`; nothing is signed until `confirm` is called. Submitted
+ * transactions are tracked in the activity log until final, and the
+ * deposits they touched are re-read once they succeed.
+ */
+export function useTransactionFlow() {
+  const client = useSuiClient();
+  const timeDeposits = useTimeDeposits();
+  const invalidateDeposits = useInvalidateDeposits();
+  const sponsorUrl = useNetworkVariable("sponsorUrl");
+  const currentAccount = useCurrentAccount();
+  const { mutateAsync: signAndExecuteTransaction } =
+    useSignAndExecuteTransaction();
+  const { mutateAsync: signTransaction } = useSignTransaction();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [preflighting, setPreflighting] = useState(false);
+  const activity = useActivity();
+
+  /** Whether `sender` holds too little SUI to pay for gas. */
+  async function needsSponsor(sender: string) {
+    const { totalBalance } = await client.getBalance({
+      owner: sender,
+      coinType: SUI_COIN_TYPE,
+    });
+    return BigInt(totalBalance) < SPONSOR_BELOW_MIST;
+  }
+
+  /** Dry-runs `tx` and shows the result; signing waits for confirmation. */
+  async function prepare(
+    label: string,
+    tx: Transaction,
+    onSuccess?: PendingAction["onSuccess"],
+    { sponsorable = false }: PrepareOptions = {},
+  ) {
+    if (!currentAccount) return;
+    const sender = currentAccount.address;
+    setPreflighting(true);
+    let sponsored: SponsoredTransaction | null = null;
+    try {
+      if (sponsorable && sponsorUrl && (await needsSponsor(sender))) {
+        const kind = await tx.build({ client, onlyTransactionKind: true });
+        sponsored = await new SponsorClient(sponsorUrl).sponsor(sender, kind);
+      }
+      const result = await timeDeposits.dryRun(
+        sponsored ? fromBase64(sponsored.bytes) : tx,
+        sender,
+      );
+      setPending({ label, tx, result, sponsored, onSuccess });
+    } catch (e) {
+      if (sponsored) releaseSponsored(sponsored);
+      activity.notify(`${label} failed: ${describeError(e)}`, "error");
+    } finally {
+      setPreflighting(false);
+    }
+  }
+
+  /** Hands the sponsor a sponsored transaction back, unsigned and unsent. */
+  function releaseSponsored({ bytes }: SponsoredTransaction) {
+    if (!sponsorUrl) return;
+    // Ignored: unreleased, the sponsor's reservation lapses within a minute.
+    new SponsorClient(sponsorUrl).release(bytes).catch(() => {});
+  }
+
+  /** Signs as the sender; the sponsor adds its signature and submits. */
+  async function executeSponsored(sponsored: SponsoredTransaction) {
+    const signed = await signTransaction({
+      transaction: sponsored.bytes,
+    }).catch((e: unknown) => {
+      releaseSponsored(sponsored);
+      throw e;
+    });
+    return new SponsorClient(sponsorUrl).execute(
+      sponsored.bytes,
+      signed.signature,
+    );
+  }
+
+  async function confirm() {
+    if (!pending) return;
+    const { label, tx, sponsored, onSuccess } = pending;
+    setPending(null);
+    const id = activity.start(label);
+    try {
+      const { digest } = sponsored
+        ? await executeSponsored(sponsored)
+        : await signAndExecuteTransaction({ transaction: tx });
+      activity.update(id, { digest });
+      const receipt = await client.waitForTransaction({
+        digest,
+        options: { showEffects: true, showEvents: true, showObjectChanges: true },
+      });
+      if (receipt.effects?.status.status === "failure") {
+        activity.update(id, {
+          status: "failed",
+          error: describeError(receipt.effects.status.error),
+        });
+        return;
+      }
+      activity.update(id, {
+        status: "confirmed",
+        createdDepositIds: createdDepositIds(receipt),
+      });
+      invalidateDeposits(receipt);
+      const summary = onSuccess?.(receipt);
+      if (summary) activity.update(id, { summary });
+    } catch (e) {
+      activity.update(id, { status: "failed", error: describeError(e) });
+    }
+  }
+
+  return {
+    pending,
+    preflighting,
+    prepare,
+    confirm,
+    cancel: () => {
+      if (pending?.sponsored) releaseSponsored(pending.sponsored);
+      setPending(null);
+    },
+  };
+}
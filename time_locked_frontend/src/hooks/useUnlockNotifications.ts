@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { useAddressNames } from "./useAddressNames.ts";
+import { depositUrl, type DepositRow } from "../lib/deposits.ts";
+import { shortId } from "../lib/format.ts";
+
+const STORAGE_PREFIX = "time-locked-deposits:notified";
+
+interface UnlockNotificationOptions {
+  /** Live rows, i.e. with lock state advanced to the current time. */
+  deposits: DepositRow[];
+  address: string | undefined;
+  network: string;
+  formatAmount: (amount: bigint, coinType: string) => string;
+}
+
+function readNotified(key: string): Set<string> | null {
+  const raw = localStorage.getItem(key);
+  return raw === null ? null : new Set(JSON.parse(raw) as string[]);
+}
+
+function writeNotified(key: string, ids: Set<string>) {
+  localStorage.setItem(key, JSON.stringify([...ids]));
+}
+
+/**
+ * Opt-in browser notifications when a deposit addressed to `address`
+ * unlocks. The IDs already announced are kept in localStorage per account,
+ * which doubles as the opt-in flag.
+ */
+export function useUnlockNotifications({
+  deposits,
+  address,
+  network,
+  formatAmount,
+}: UnlockNotificationOptions) {
+  const supported =
+    typeof Notification !== "undefined" && "serviceWorker" in navigator;
+  const key = address ? `${STORAGE_PREFIX}:${network}:${address}` : null;
+  // Bumped to re-render after toggling; the state itself is in localStorage.
+  const [, setRevision] = useState(0);
+  const { nameOf } = useAddressNames();
+  const enabled =
+    supported &&
+    key !== null &&
+    Notification.permission === "granted" &&
+    readNotified(key) !== null;
+
+  const incoming = deposits.filter((d) => d.recipient === address);
+  const unlocked = incoming.filter((d) => d.lock?.canRecipientWithdraw);
+
+  useEffect(() => {
+    if (!enabled || !key || unlocked.length === 0) return;
+    const notified = readNotified(key) ?? new Set();
+    const fresh = unlocked.filter((d) => !notified.has(d.objectId));
+    if (fresh.length === 0) return;
+    // Mark first: this effect re-runs every tick.
+    for (const d of fresh) notified.add(d.objectId);
+    writeNotified(key, notified);
+
+    navigator.serviceWorker.ready.then((registration) => {
+      for (const d of fresh) {
+        registration.showNotification("Funds unlocked", {
+          body: `${formatAmount(d.balance, d.coinType)} from ${nameOf(d.depositor) ?? shortId(d.depositor)} can now be claimed.`,
+          tag: d.objectId,
+          data: { url: depositUrl(d.objectId, network) },
+        });
+      }
+    });
+  });
+
+  async function enable() {
+    if (!supported || !key) return;
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") return;
+    await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+    // Only announce unlocks from now on, not everything already claimable.
+    writeNotified(key, new Set(unlocked.map((d) => d.objectId)));
+    setRevision((n) => n + 1);
+  }
+
+  function disable() {
+    if (!key) return;
+    localStorage.removeItem(key);
+    setRevision((n) => n + 1);
+  }
+
+  return { supported, enabled, enable, disable };
+}
@@ -0,0 +1,42 @@
+export type ActivityStatus = "pending" | "confirmed" | "failed";
+
+/** One transaction submitted from this browser session. */
+export interface ActivityEntry {
+  id: string;
+  network: string;
+  account: string;
+  label: string;
+  status: ActivityStatus;
+  startedAt: number;
+  digest: string | null;
+  /** Outcome worth showing once settled, e.g. the amounts claimed. */
+  summary: string | null;
+  error: string | null;
+  createdDepositIds: string[];
+}
+
+const STORAGE_KEY = "time-locked-deposits:activity";
+const MAX_ENTRIES = 100;
+
+/** Entries from earlier in this tab's session, newest first. */
+export function loadActivity(): ActivityEntry[] {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    const entries: ActivityEntry[] = raw ? JSON.parse(raw) : [];
+    // A reload loses track of anything still in flight.
+    return entries.map((e) =>
+      e.status === "pending"
+        ? { ...e, status: "failed", error: "Interrupted by a page reload" }
+        : e,
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function saveActivity(entries: ActivityEntry[]) {
+  sessionStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify(entries.slice(0, MAX_ENTRIES)),
+  );
+}
@@ -0,0 +1,37 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+export interface Contact {
+  address: string;
+  label: string;
+}
+
+const STORAGE_KEY = "time-locked-deposits:address-book";
+
+/** Saved contacts, sorted by label. Addresses are the same on every network. */
+export function loadContacts(): Contact[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Contact[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(contacts: Contact[]): Contact[] {
+  const sorted = [...contacts].sort((a, b) => a.label.localeCompare(b.label));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+  return sorted;
+}
+
+/** Adds a contact, or relabels the one already saved for the address. */
+export function upsertContact(contacts: Contact[], contact: Contact): Contact[] {
+  const address = normalizeSuiAddress(contact.address);
+  return save([
+    ...contacts.filter((c) => c.address !== address),
+    { address, label: contact.label.trim() },
+  ]);
+}
+
+export function removeContact(contacts: Contact[], address: string): Contact[] {
+  return save(contacts.filter((c) => c.address !== address));
+}
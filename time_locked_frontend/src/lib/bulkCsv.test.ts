@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { abortMessage } from "../sdk/index.ts";
+import { parseBulkCsv } from "./bulkCsv.ts";
+
+const alice = `0x${"a11ce".padStart(64, "0")}`;
+const bob = `0x${"b0b".padStart(64, "0")}`;
+const carol = `0x${"ca201".padStart(64, "0")}`;
+const now = new Date(2026, 0, 1, 12, 0).getTime();
+
+const parse = (text: string) => parseBulkCsv(text, 9, alice, now);
+const errors = (text: string) => parse(text).map((r) => r.errors);
+
+describe("parseBulkCsv", () => {
+  it("skips blank lines and a leading header, keeping line numbers", () => {
+    const rows = parse(
+      `Recipient, Amount, Duration\r\n\r\n${bob}, 1.5, 60\n   \n0xb0b,2,1440\n`,
+    );
+    expect(rows).toEqual([
+      {
+        line: 3,
+        raw: `${bob}, 1.5, 60`,
+        recipient: bob,
+        amount: 1_500_000_000n,
+        durationMinutes: 60,
+        unlockAt: now + 60 * 60_000,
+        errors: [],
+      },
+      expect.objectContaining({ line: 5, recipient: "0xb0b", errors: [] }),
+    ]);
+  });
+
+  it("only treats the first row as a header", () => {
+    expect(errors(`${bob},1,60\nrecipient,amount,duration`)[1]).toEqual([
+      "Enter the amount as a number, like 1.5.",
+    ]);
+  });
+
+  it("reads quoted cells", () => {
+    const [row] = parse(`"${bob}", "1.25" ,"Jan 1, 2026 13:00"`);
+    expect(row).toMatchObject({
+      recipient: bob,
+      amount: 1_250_000_000n,
+      durationMinutes: 60,
+      errors: [],
+    });
+    expect(errors(`"${bob}""",1,60`)).toEqual([
+      ["The recipient is not a valid Sui address."],
+    ]);
+    expect(errors(`"${bob},1,60`)).toEqual([
+      ["A quoted cell is missing its closing quote."],
+    ]);
+  });
+
+  it("takes unlock dates, rounded up to whole minutes", () => {
+    const [row] = parse(`${bob},1,2026-01-01T12:30:30`);
+    expect(row.durationMinutes).toBe(31);
+    expect(errors(`${bob},1,tomorrow`)).toEqual([
+      ["Duration must be whole minutes or a date/time."],
+    ]);
+    expect(errors(`${bob},1,2025-12-31T12:00`)).toEqual([
+      [abortMessage("EInvalidDuration")],
+    ]);
+  });
+
+  it("reports the column count before anything else", () => {
+    expect(errors(`${bob},1\n${bob},1,60,extra\n${bob},1.5,60`)).toEqual([
+      ["Expected 3 columns: recipient, amount, duration or unlock date."],
+      ["Expected 3 columns: recipient, amount, duration or unlock date."],
+      [],
+    ]);
+  });
+
+  it("rejects bad amounts", () => {
+    const amounts = ["1 SUI", "1.0000000001", "0", ""];
+    expect(errors(amounts.map((a) => `${bob},${a},60`).join("\n"))).toEqual([
+      ["Enter the amount as a number, like 1.5."],
+      ["This coin has at most 9 decimal places."],
+      [abortMessage("EInvalidAmount")],
+      [abortMessage("EInvalidAmount")],
+    ]);
+  });
+
+  it("rejects bad recipients", () => {
+    expect(errors(`0xnope,1,60\n${alice},1,60`)).toEqual([
+      ["The recipient is not a valid Sui address."],
+      [abortMessage("EInvalidRecipient")],
+    ]);
+  });
+
+  it("flags rows repeating an earlier one", () => {
+    expect(
+      errors(
+        [
+          `${bob},1,60`,
+          `${bob},1,120`,
+          `0xb0b,1.0,60`,
+          `${carol},1,60`,
+          `${bob},1,60`,
+        ].join("\n"),
+      ),
+    ).toEqual([
+      [],
+      [],
+      ["Same deposit as line 1."],
+      [],
+      ["Same deposit as line 1."],
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  MS_PER_MINUTE,
+  parseAmount,
+  validateDeposit,
+  type DepositInput,
+} from "../sdk/index.ts";
+import { minutesUntil } from "./unlockTime.ts";
+
+export interface BulkRow extends DepositInput {
+  /** 1-based line number in the pasted text. */
+  line: number;
+  raw: string;
+  /** Expected unlock moment, assuming the transaction lands now. */
+  unlockAt: number;
+  errors: string[];
+}
+
+/**
+ * Third column: a whole number of minutes, or a date/time the funds should
+ * unlock at (rounded up to the next whole minute from `now`).
+ */
+function parseDuration(value: string, now: number): number {
+  if (/^\d+$/.test(value)) return Number(value);
+  const at = Date.parse(value);
+  if (Number.isNaN(at)) return NaN;
+  return minutesUntil(at, now);
+}
+
+/**
+ * Splits one CSV line into trimmed cells. Cells may be double-quoted, with
+ * `""` standing for a quote inside; returns null when a quote isn't closed.
+ */
+function splitCells(line: string): string[] | null {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c !== '"') cell += c;
+      else if (line[i + 1] === '"') cell += line[++i];
+      else quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) return null;
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parses `recipient, amount, duration-or-unlock-date` lines. Blank lines
+ * and a leading header row are skipped; every other line becomes a row,
+ * carrying its validation errors. A row repeating an earlier one exactly is
+ * flagged, as pasting the same line twice is more likely a slip than intent.
+ */
+export function parseBulkCsv(
+  text: string,
+  decimals: number,
+  depositor: string,
+  now = Date.now(),
+): BulkRow[] {
+  const rows: BulkRow[] = [];
+  const seen = new Map<string, number>();
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (!raw.trim()) return;
+    const cells = splitCells(raw);
+    if (rows.length === 0 && /^recipient$/i.test(cells?.[0] ?? "")) return;
+
+    const [recipient = "", amountText = "", durationText = ""] = cells ?? [];
+    const parsed = parseAmount(amountText || "0", decimals);
+    const amount = parsed.ok ? parsed.amount : 0n;
+    const durationMinutes = parseDuration(durationText, now);
+
+    const errors = !cells
+      ? ["A quoted cell is missing its closing quote."]
+      : cells.length !== 3
+        ? ["Expected 3 columns: recipient, amount, duration or unlock date."]
+        : !parsed.ok
+          ? [parsed.error]
+          : Number.isNaN(durationMinutes)
+            ? ["Duration must be whole minutes or a date/time."]
+            : validateDeposit(
+                { recipient, amount, durationMinutes },
+                depositor,
+              );
+
+    if (errors.length === 0) {
+      const to = normalizeSuiAddress(recipient);
+      const key = `${to},${amount},${durationMinutes}`;
+      const first = seen.get(key);
+      if (first === undefined) seen.set(key, i + 1);
+      else errors.push(`Same deposit as line ${first}.`);
+    }
+
+    rows.push({
+      line: i + 1,
+      raw,
+      recipient,
+      amount,
+      durationMinutes,
+      unlockAt: now + durationMinutes * MS_PER_MINUTE,
+      errors,
+    });
+  });
+  return rows;
+}
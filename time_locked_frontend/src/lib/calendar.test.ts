@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { buildIcs, unlockEvent } from "./calendar.ts";
+import type { TimeDeposit } from "../sdk/index.ts";
+
+const deposit: TimeDeposit = {
+  objectId: `0x${"d1".padStart(64, "0")}`,
+  coinType: "0x2::sui::SUI",
+  depositor: `0x${"a11ce".padStart(64, "0")}`,
+  recipient: `0x${"b0b".padStart(64, "0")}`,
+  balance: 1_500_000_000n,
+  startTime: Date.UTC(2025, 9, 19, 12, 0),
+  duration: 86_400_000,
+  unlockTime: Date.UTC(2025, 9, 20, 12, 0),
+};
+
+const lines = (ics: string) => ics.split("\r\n");
+const unfold = (ics: string) => ics.replace(/\r\n /g, "");
+
+describe("buildIcs", () => {
+  it("writes one event per unlock in UTC with CRLF line endings", () => {
+    const ics = buildIcs(
+      [unlockEvent(deposit, "1.5 SUI", "https://app.example/deposit/0xd1")],
+      Date.UTC(2025, 9, 19, 13, 0),
+    );
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(lines(unfold(ics))).toEqual(
+      expect.arrayContaining([
+        "BEGIN:VCALENDAR",
+        `UID:${deposit.objectId}@time-locked-deposits`,
+        "DTSTAMP:20251019T130000Z",
+        "DTSTART:20251020T120000Z",
+        "DTEND:20251020T123000Z",
+        "URL:https://app.example/deposit/0xd1",
+        "END:VCALENDAR",
+      ]),
+    );
+  });
+
+  it("escapes text and folds long lines", () => {
+    const ics = buildIcs([
+      {
+        uid: "x",
+        start: 0,
+        title: "a, b; c\\d",
+        description: "é".repeat(60),
+      },
+    ]);
+    expect(ics).toContain("SUMMARY:a\\, b\\; c\\\\d\r\n");
+    for (const line of lines(ics)) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${"é".repeat(60)}\r\n`);
+  });
+});
+
+describe("unlockEvent", () => {
+  it("names the counterparty from the viewer's side", () => {
+    expect(unlockEvent(deposit, "1.5 SUI", "u", deposit.recipient).title).toBe(
+      "1.5 SUI unlocks for you",
+    );
+    expect(unlockEvent(deposit, "1.5 SUI", "u", deposit.depositor).title).toBe(
+      "1.5 SUI to 0x000000...0b0b unlocks",
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import type { TimeDeposit } from "../sdk/index.ts";
+import { shortId } from "./format.ts";
+
+export interface CalendarEvent {
+  uid: string;
+  start: number;
+  /** Defaults to 30 minutes. */
+  durationMs?: number;
+  title: string;
+  description: string;
+  url?: string;
+}
+
+const DEFAULT_DURATION_MS = 30 * 60 * 1000;
+
+/** `20251019T143000Z` */
+function icsTime(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escapes TEXT values (RFC 5545 §3.3.11). */
+function icsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds content lines longer than 75 octets (RFC 5545 §3.1). */
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  const decoder = new TextDecoder();
+  let start = 0;
+  while (start < bytes.length) {
+    // Continuation lines start with a space, which counts toward the limit.
+    let end = Math.min(start + (parts.length ? 74 : 75), bytes.length);
+    // Never split a multi-byte UTF-8 sequence.
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(decoder.decode(bytes.slice(start, end)));
+    start = end;
+  }
+  return parts.join("\r\n ");
+}
+
+/** An iCalendar file with one VEVENT per entry, each with an alarm. */
+export function buildIcs(events: CalendarEvent[], now = Date.now()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TimeLocked Deposits//EN",
+    "CALSCALE:GREGORIAN",
+  ];
+  for (const ev of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${ev.uid}`,
+      `DTSTAMP:${icsTime(now)}`,
+      `DTSTART:${icsTime(ev.start)}`,
+      `DTEND:${icsTime(ev.start + (ev.durationMs ?? DEFAULT_DURATION_MS))}`,
+      `SUMMARY:${icsText(ev.title)}`,
+      `DESCRIPTION:${icsText(ev.url ? `${ev.description}\n${ev.url}` : ev.description)}`,
+    );
+    if (ev.url) lines.push(`URL:${ev.url}`);
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${icsText(ev.title)}`,
+      "TRIGGER:PT0S",
+      "END:VALARM",
+      "END:VEVENT",
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/**
+ * Calendar entry for a deposit's unlock, written from `viewer`'s side:
+ * recipients see who it is from, depositors who it is for.
+ */
+export function unlockEvent(
+  deposit: TimeDeposit,
+  amount: string,
+  url: string,
+  viewer?: string,
+): CalendarEvent {
+  const incoming = viewer === deposit.recipient;
+  const outgoing = viewer === deposit.depositor && !incoming;
+  const title = incoming
+    ? `${amount} unlocks for you`
+    : outgoing
+      ? `${amount} to ${shortId(deposit.recipient)} unlocks`
+      : `${amount} deposit unlocks`;
+  const description = [
+    `${amount} locked in deposit ${deposit.objectId}`,
+    `From: ${deposit.depositor}`,
+    `To: ${deposit.recipient}`,
+    incoming ? "You can claim it from this time on." : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+  return {
+    uid: `${deposit.objectId}@time-locked-deposits`,
+    start: deposit.unlockTime,
+    title,
+    description,
+    url,
+  };
+}
+
+/** Saves an `.ics` file through the browser's download flow. */
+export function downloadIcs(filename: string, events: CalendarEvent[]) {
+  const blob = new Blob([buildIcs(events)], { type: "text/calendar" });
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(href);
+}
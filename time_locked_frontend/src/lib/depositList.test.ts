@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FILTER,
+  byDirection,
+  filterDeposits,
+  totalsByCoin,
+} from "./depositList.ts";
+import type { DepositRow } from "./deposits.ts";
+
+const ME = `0x${"a11ce".padStart(64, "0")}`;
+const BOB = `0x${"b0b".padStart(64, "0")}`;
+const CAROL = `0x${"ca401".padStart(64, "0")}`;
+const USDC = `0x${"c0".padStart(64, "0")}::usdc::USDC`;
+
+function row(
+  id: string,
+  overrides: Partial<DepositRow> & { unlocked?: boolean } = {},
+): DepositRow {
+  const { unlocked = false, ...rest } = overrides;
+  return {
+    objectId: `0x${id.padStart(64, "0")}`,
+    coinType: "0x2::sui::SUI",
+    depositor: ME,
+    recipient: BOB,
+    balance: 1_000n,
+    startTime: 0,
+    duration: 60_000,
+    unlockTime: 60_000,
+    lock: {
+      chainTime: 0,
+      canRecipientWithdraw: unlocked,
+      timeUntilUnlock: unlocked ? 0 : 60_000,
+      observedAt: 0,
+    },
+    ...rest,
+  };
+}
+
+const sentEarly = row("d1", { unlockTime: 10_000, balance: 500n });
+const sentLate = row("d2", { unlockTime: 90_000, balance: 2_000n });
+const sentUsdc = row("d3", { coinType: USDC, unlocked: true });
+const incoming = row("d4", { depositor: CAROL, recipient: ME });
+
+describe("deposit list", () => {
+  it("splits deposits by the account's role", () => {
+    const all = [sentEarly, incoming, sentLate];
+    expect(byDirection(all, ME, "sent")).toEqual([sentEarly, sentLate]);
+    expect(byDirection(all, ME, "incoming")).toEqual([incoming]);
+  });
+
+  it("sorts by unlock time or by amount", () => {
+    const sent = [sentLate, sentUsdc, sentEarly];
+    const ids = (rows: DepositRow[]) => rows.map((r) => r.objectId);
+    expect(ids(filterDeposits(sent, "sent", DEFAULT_FILTER))).toEqual(
+      ids([sentEarly, sentUsdc, sentLate]),
+    );
+    expect(
+      ids(filterDeposits(sent, "sent", { ...DEFAULT_FILTER, sort: "amount" })),
+    ).toEqual(ids([sentLate, sentUsdc, sentEarly]));
+  });
+
+  it("filters by lock state and coin, hiding unread locks", () => {
+    const unread = row("d5", { lock: null });
+    const sent = [sentEarly, sentUsdc, unread];
+    expect(
+      filterDeposits(sent, "sent", { ...DEFAULT_FILTER, lock: "unlocked" }),
+    ).toEqual([sentUsdc]);
+    expect(
+      filterDeposits(sent, "sent", { ...DEFAULT_FILTER, lock: "locked" }),
+    ).toEqual([sentEarly]);
+    expect(
+      filterDeposits(sent, "sent", { ...DEFAULT_FILTER, coinType: USDC }),
+    ).toEqual([sentUsdc]);
+  });
+
+  it("searches the counterparty's address and name and the object ID", () => {
+    const nameOf = (a: string) => (a === CAROL ? "Carol" : null);
+    const search = (query: string) =>
+      filterDeposits(
+        [incoming],
+        "incoming",
+        { ...DEFAULT_FILTER, query },
+        nameOf,
+      );
+    expect(search("carol")).toEqual([incoming]);
+    expect(search("ca401")).toEqual([incoming]);
+    expect(search("00d4")).toEqual([incoming]);
+    // The account's own side isn't the counterparty.
+    expect(search("a11ce")).toEqual([]);
+  });
+
+  it("totals each coin separately", () => {
+    expect(totalsByCoin([sentEarly, sentLate, sentUsdc])).toEqual([
+      {
+        coinType: expect.stringContaining("::sui::SUI"),
+        count: 2,
+        total: 2_500n,
+        unlocked: 0n,
+      },
+      { coinType: USDC, count: 1, total: 1_000n, unlocked: 1_000n },
+    ]);
+  });
+});
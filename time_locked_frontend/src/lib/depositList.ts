@@ -0,0 +1,112 @@
+import { normalizeCoinType } from "../sdk/index.ts";
+import type { DepositRow } from "./deposits.ts";
+
+/** Deposits the account funded, or ones addressed to it. */
+export type DepositDirection = "sent" | "incoming";
+
+export type LockFilter = "all" | "locked" | "unlocked";
+
+export type DepositSort = "unlock" | "amount";
+
+export interface DepositListFilter {
+  lock: LockFilter;
+  /** Normalized coin type, or `"all"`. */
+  coinType: string;
+  /** Matches the counterparty's address or name, or the object ID. */
+  query: string;
+  sort: DepositSort;
+}
+
+export const DEFAULT_FILTER: DepositListFilter = {
+  lock: "all",
+  coinType: "all",
+  query: "",
+  sort: "unlock",
+};
+
+export interface CoinTotals {
+  coinType: string;
+  count: number;
+  total: bigint;
+  /** Past unlock: claimable by the recipient. */
+  unlocked: bigint;
+}
+
+/** The other party to a deposit, from the account's point of view. */
+export function counterparty(
+  deposit: DepositRow,
+  direction: DepositDirection,
+): string {
+  return direction === "sent" ? deposit.recipient : deposit.depositor;
+}
+
+export function byDirection(
+  deposits: DepositRow[],
+  address: string,
+  direction: DepositDirection,
+): DepositRow[] {
+  return deposits.filter((d) =>
+    direction === "sent" ? d.depositor === address : d.recipient === address,
+  );
+}
+
+/**
+ * Applies the lock, coin and search filters, then sorts: soonest unlock
+ * first, or largest amount first. Deposits whose lock state hasn't been
+ * read yet only show under "all".
+ */
+export function filterDeposits(
+  deposits: DepositRow[],
+  direction: DepositDirection,
+  filter: DepositListFilter,
+  nameOf: (address: string) => string | null = () => null,
+): DepositRow[] {
+  const query = filter.query.trim().toLowerCase();
+  const matches = (d: DepositRow) => {
+    if (filter.lock !== "all") {
+      if (!d.lock) return false;
+      if (d.lock.canRecipientWithdraw !== (filter.lock === "unlocked")) {
+        return false;
+      }
+    }
+    if (
+      filter.coinType !== "all" &&
+      normalizeCoinType(d.coinType) !== filter.coinType
+    ) {
+      return false;
+    }
+    if (!query) return true;
+    const other = counterparty(d, direction);
+    return [d.objectId, other, nameOf(other) ?? ""].some((s) =>
+      s.toLowerCase().includes(query),
+    );
+  };
+  return deposits.filter(matches).sort((a, b) =>
+    filter.sort === "amount"
+      ? b.balance > a.balance
+        ? 1
+        : b.balance < a.balance
+          ? -1
+          : a.unlockTime - b.unlockTime
+      : a.unlockTime - b.unlockTime,
+  );
+}
+
+/** Per-coin totals, since amounts of different coins don't add up. */
+export function totalsByCoin(deposits: DepositRow[]): CoinTotals[] {
+  const totals = new Map<string, CoinTotals>();
+  for (const d of deposits) {
+    const coinType = normalizeCoinType(d.coinType);
+    const t = totals.get(coinType) ?? {
+      coinType,
+      count: 0,
+      total: 0n,
+      unlocked: 0n,
+    };
+    t.count += 1;
+    t.total += d.balance;
+    if (d.lock?.canRecipientWithdraw) t.unlocked += d.balance;
+    totals.set(coinType, t);
+  }
+  return [...totals.values()];
+}
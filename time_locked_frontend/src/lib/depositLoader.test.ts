@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DepositStatus, TimeDeposit } from "../sdk/index.ts";
+import { DepositLoader } from "./depositLoader.ts";
+
+const ME = `0x${"a11ce".padStart(64, "0")}`;
+
+function deposit(id: string): TimeDeposit {
+  return {
+    objectId: `0x${id.padStart(64, "0")}`,
+    coinType: "0x2::sui::SUI",
+    depositor: ME,
+    recipient: ME,
+    balance: 1_000n,
+    startTime: 0,
+    duration: 60_000,
+    unlockTime: 60_000,
+  };
+}
+
+/** A chain holding `live`, where every deposit unlocks at 60s and it's 30s. */
+function fakeReader(live: TimeDeposit[]) {
+  return {
+    getDeposits: vi.fn(async (ids: string[]) => {
+      return new Map(
+        live.filter((d) => ids.includes(d.objectId)).map((d) => [d.objectId, d]),
+      );
+    }),
+    inspectDeposits: vi.fn(async (deposits: Pick<TimeDeposit, "objectId">[]) => {
+      const statuses = new Map<string, DepositStatus>();
+      for (const { objectId } of deposits) {
+        const d = live.find((l) => l.objectId === objectId)!;
+        statuses.set(objectId, {
+          ...d,
+          chainTime: 30_000,
+          canRecipientWithdraw: false,
+          timeUntilUnlock: 30_000,
+        });
+      }
+      return statuses;
+    }),
+  };
+}
+
+describe("DepositLoader", () => {
+  it("reads loads issued in the same tick as one batch", async () => {
+    const reader = fakeReader([deposit("1"), deposit("2")]);
+    const loader = new DepositLoader(reader);
+
+    const [a, b, again, gone] = await Promise.all([
+      loader.load("0x1"),
+      loader.load("0x2"),
+      loader.load(deposit("1").objectId),
+      loader.load("0x3"),
+    ]);
+
+    expect(reader.getDeposits).toHaveBeenCalledTimes(1);
+    expect(reader.getDeposits.mock.calls[0][0]).toEqual([
+      deposit("1").objectId,
+      deposit("2").objectId,
+      deposit("3").objectId,
+    ]);
+    expect(reader.inspectDeposits).toHaveBeenCalledTimes(1);
+    expect(a?.objectId).toBe(deposit("1").objectId);
+    expect(a?.lock?.timeUntilUnlock).toBe(30_000);
+    expect(b?.objectId).toBe(deposit("2").objectId);
+    expect(again).toEqual(a);
+    expect(gone).toBeNull();
+
+    await loader.load("0x2");
+    expect(reader.getDeposits).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails every load in a batch when the read fails", async () => {
+    const reader = fakeReader([]);
+    reader.getDeposits.mockRejectedValueOnce(new Error("node down"));
+    const loader = new DepositLoader(reader);
+
+    const results = await Promise.allSettled([
+      loader.load("0x1"),
+      loader.load("0x2"),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+});
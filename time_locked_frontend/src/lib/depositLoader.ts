@@ -0,0 +1,60 @@
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+import type { TimeDepositClient } from "../sdk/index.ts";
+import { withLock, type DepositRow } from "./deposits.ts";
+
+type DepositReader = Pick<TimeDepositClient, "getDeposits" | "inspectDeposits">;
+
+interface Waiter {
+  resolve: (row: DepositRow | null) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Coalesces single-deposit reads issued in the same tick into one batched
+ * read of the objects and one of their lock state, so a list of N deposits
+ * costs a few round trips rather than N.
+ */
+export class DepositLoader {
+  private queue = new Map<string, Waiter[]>();
+  private scheduled = false;
+  private readonly reader: DepositReader;
+
+  constructor(reader: DepositReader) {
+    this.reader = reader;
+  }
+
+  /** The live deposit with its lock state, or `null` once it's gone. */
+  load(id: string): Promise<DepositRow | null> {
+    const key = normalizeSuiObjectId(id);
+    return new Promise((resolve, reject) => {
+      const waiters = this.queue.get(key) ?? [];
+      waiters.push({ resolve, reject });
+      this.queue.set(key, waiters);
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setTimeout(() => this.flush(), 0);
+      }
+    });
+  }
+
+  private async flush() {
+    const batch = this.queue;
+    this.queue = new Map();
+    this.scheduled = false;
+    try {
+      const deposits = await this.reader.getDeposits([...batch.keys()]);
+      const statuses = await this.reader.inspectDeposits([
+        ...deposits.values(),
+      ]);
+      for (const [id, waiters] of batch) {
+        const deposit = deposits.get(id);
+        const row = deposit ? withLock(deposit, statuses) : null;
+        for (const w of waiters) w.resolve(row);
+      }
+    } catch (e) {
+      for (const waiters of batch.values()) {
+        for (const w of waiters) w.reject(e);
+      }
+    }
+  }
+}
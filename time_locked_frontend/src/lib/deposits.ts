@@ -0,0 +1,77 @@
+import type {
+  ChainLockState,
+  DepositLifecycle,
+  DepositStatus,
+  TimeDeposit,
+} from "../sdk/index.ts";
+
+/** How often open views look for new deposit events. */
+export const POLL_INTERVAL_MS = 15_000;
+
+/** Chain lock state plus the local time it was read at. */
+export type ObservedLock = ChainLockState & { observedAt: number };
+
+/** A deposit plus its on-chain lock state, once that has been read. */
+export type DepositRow = TimeDeposit & { lock: ObservedLock | null };
+
+export function withLock(
+  deposit: TimeDeposit,
+  statuses: Map<string, DepositStatus>,
+): DepositRow {
+  const status = statuses.get(deposit.objectId);
+  if (!status) return { ...deposit, lock: null };
+  const { chainTime, canRecipientWithdraw, timeUntilUnlock } = status;
+  return {
+    ...deposit,
+    lock: {
+      chainTime,
+      canRecipientWithdraw,
+      timeUntilUnlock,
+      observedAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * Advances a row's lock state from when it was read to `now`, so countdowns
+ * run and deposits flip to unlocked without another chain read.
+ */
+export function lockAt(row: DepositRow, now: number): DepositRow {
+  if (!row.lock) return row;
+  const chainTime = row.lock.chainTime + (now - row.lock.observedAt);
+  const timeUntilUnlock = Math.max(0, row.unlockTime - chainTime);
+  return {
+    ...row,
+    lock: {
+      ...row.lock,
+      chainTime,
+      canRecipientWithdraw: timeUntilUnlock === 0,
+      timeUntilUnlock,
+    },
+  };
+}
+
+
+export const STATUS_STYLES: Record<DepositLifecycle, string> = {
+  active: "bg-blue-500/20 text-blue-300 border border-blue-500/30",
+  cancelled: "bg-slate-500/20 text-slate-300 border border-slate-500/30",
+  claimed: "bg-green-500/20 text-green-300 border border-green-500/30",
+};
+
+export const STATUS_LABELS: Record<DepositLifecycle, string> = {
+  active: "Active",
+  cancelled: "Cancelled by depositor",
+  claimed: "Claimed by recipient",
+};
+
+/** Route of the standalone page for one deposit. */
+export function depositPath(depositId: string): string {
+  return `/deposit/${depositId}`;
+}
+
+/** Absolute link to a deposit's page, pinned to the network it lives on. */
+export function depositUrl(depositId: string, network: string): string {
+  const url = new URL(depositPath(depositId), window.location.origin);
+  url.searchParams.set("network", network);
+  return url.toString();
+}
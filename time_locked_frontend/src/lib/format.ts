@@ -0,0 +1,24 @@
+/** Locale date/time for a ms timestamp, or "-" when missing. */
+export function fmtMs(ms: number | null | undefined): string {
+  if (!ms) return "-";
+  return new Date(ms).toLocaleString();
+}
+
+/** "0x1234ab...cdef" style shortening for addresses, IDs and digests. */
+export function shortId(id: string, head = 8, tail = 4): string {
+  if (id.length <= head + tail + 3) return id;
+  return `${id.slice(0, head)}...${id.slice(-tail)}`;
+}
+
+/** Compact "2d 4h", "3h 12m", "45s" style rendering of a duration in ms. */
+export function formatDuration(ms: number): string {
+  if (ms <= 0) return "0s";
+  const s = Math.floor(ms / 1000);
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  if (d > 0) return `${d}d ${h}h`;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s % 60}s`;
+  return `${s}s`;
+}
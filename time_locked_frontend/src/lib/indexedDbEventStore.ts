@@ -0,0 +1,101 @@
+import type { EventId } from "@mysten/sui/client";
+import type {
+  DepositEvent,
+  DepositEventStore,
+  SyncState,
+} from "../sdk/index.ts";
+
+const DB_NAME = "time-locked-deposits";
+const DB_VERSION = 1;
+const EVENTS = "events";
+const CURSORS = "cursors";
+
+interface StoredEvent {
+  scope: string;
+  event: DepositEvent;
+}
+
+interface StoredCursor {
+  scope: string;
+  cursor: EventId | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      const events = db.createObjectStore(EVENTS, {
+        keyPath: ["scope", "event.txDigest", "event.eventSeq"],
+      });
+      events.createIndex("scope", "scope");
+      db.createObjectStore(CURSORS, { keyPath: "scope" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Persists indexed module events in IndexedDB. Each store is scoped to one
+ * network and the package's original ID, e.g. `testnet:0x3267…`, so the
+ * cache carries over when the package is upgraded.
+ */
+export class IndexedDbEventStore implements DepositEventStore {
+  readonly scope: string;
+
+  constructor(network: string, originalPackageId: string) {
+    this.scope = `${network}:${originalPackageId}`;
+  }
+
+  async load(): Promise<SyncState> {
+    const db = await openDb();
+    const tx = db.transaction([EVENTS, CURSORS], "readonly");
+    const [stored, cursor] = await Promise.all([
+      request<StoredEvent[]>(
+        tx.objectStore(EVENTS).index("scope").getAll(this.scope),
+      ),
+      request<StoredCursor | undefined>(
+        tx.objectStore(CURSORS).get(this.scope),
+      ),
+    ]);
+    // getAll returns key order, not chain order; restore the latter.
+    const events = stored
+      .map((s) => s.event)
+      .sort(
+        (a, b) =>
+          (a.timestampMs ?? 0) - (b.timestampMs ?? 0) ||
+          Number(a.eventSeq) - Number(b.eventSeq),
+      );
+    return { events, cursor: cursor?.cursor ?? null };
+  }
+
+  async append(events: DepositEvent[], cursor: EventId | null) {
+    const db = await openDb();
+    const tx = db.transaction([EVENTS, CURSORS], "readwrite");
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const eventStore = tx.objectStore(EVENTS);
+    for (const event of events) {
+      eventStore.put({ scope: this.scope, event } satisfies StoredEvent);
+    }
+    tx.objectStore(CURSORS).put({
+      scope: this.scope,
+      cursor,
+    } satisfies StoredCursor);
+    await done;
+  }
+}
@@ -0,0 +1,39 @@
+import { MAX_DURATION_MINUTES, MS_PER_MINUTE } from "../sdk/index.ts";
+
+export const DURATION_PRESETS = [
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 1_440 },
+  { label: "1 week", minutes: 10_080 },
+  { label: "1 month", minutes: 43_200 },
+  { label: "3 months", minutes: 129_600 },
+  { label: "1 year", minutes: MAX_DURATION_MINUTES },
+];
+
+/**
+ * Whole minutes from `now` until `at`, rounded up: `create_deposit` takes
+ * minutes, so the deposit unlocks at `at` or up to a minute after.
+ */
+export function minutesUntil(at: number, now: number): number {
+  return Math.ceil((at - now) / MS_PER_MINUTE);
+}
+
+/** `YYYY-MM-DDTHH:mm` in local time, the format of `datetime-local` inputs. */
+export function toDateTimeLocal(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` +
+    `T${pad(d.getHours())}:${pad(d.getMinutes())}`
+  );
+}
+
+/** The browser's time zone, e.g. "Europe/Berlin (GMT+2)". */
+export function timeZoneLabel(at = Date.now()): string {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const offset = new Intl.DateTimeFormat(undefined, {
+    timeZoneName: "shortOffset",
+  })
+    .formatToParts(at)
+    .find((p) => p.type === "timeZoneName")?.value;
+  return offset ? `${zone} (${offset})` : zone;
+}
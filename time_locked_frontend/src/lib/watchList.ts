@@ -0,0 +1,28 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+const STORAGE_KEY = "time-locked-deposits:watch-list";
+
+/** Addresses followed read-only, in the order they were added. */
+export function loadWatchList(): string[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function save(addresses: string[]): string[] {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(addresses));
+  return addresses;
+}
+
+export function addWatched(addresses: string[], address: string): string[] {
+  const normalized = normalizeSuiAddress(address);
+  if (addresses.includes(normalized)) return addresses;
+  return save([...addresses, normalized]);
+}
+
+export function removeWatched(addresses: string[], address: string): string[] {
+  return save(addresses.filter((a) => a !== address));
+}
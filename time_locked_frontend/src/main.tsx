@@ -2,29 +2,56 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { BrowserRouter } from "react-router";
 import App from "./App.tsx";
-import { createNetworkConfig, SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
-import { getFullnodeUrl} from '@mysten/sui/client';
+import ActivityProvider from "./components/ActivityProvider.tsx";
+import AddressNamesProvider from "./components/AddressNamesProvider.tsx";
+import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
 import '@mysten/dapp-kit/dist/index.css';
+import DemoControls from "./components/DemoControls.tsx";
+import { DEMO_WALLET_NAME } from "./demo/constants.ts";
+import { DEFAULT_NETWORK, DEMO_MODE, networkConfig } from './networkConfig.ts';
 
 
-const { networkConfig } = createNetworkConfig({
-	testnet: { url: getFullnodeUrl('testnet') },
+const queryClient = new QueryClient();
 
-});
+async function start() {
+  // Loaded only in demo mode, so regular builds don't carry the simulator.
+  const demo = DEMO_MODE
+    ? await (await import("./demo/index.ts")).startDemoChain()
+    : null;
 
-const queryClient = new QueryClient();
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
+        <QueryClientProvider client={queryClient}>
+          <SuiClientProvider
+            networks={networkConfig}
+            defaultNetwork={DEFAULT_NETWORK}
+            {...(demo && { createClient: () => demo.client })}
+          >
+            <WalletProvider
+              autoConnect
+              {...(demo && {
+                preferredWallets: [DEMO_WALLET_NAME],
+                walletFilter: (wallet) => wallet.name === DEMO_WALLET_NAME,
+                storageKey: "time-locked-demo:wallet-connection",
+              })}
+            >
+              <BrowserRouter>
+                <AddressNamesProvider>
+                  <ActivityProvider>
+                    <App />
+                  </ActivityProvider>
+                </AddressNamesProvider>
+              </BrowserRouter>
+              {demo && <DemoControls simulator={demo.simulator} />}
+            </WalletProvider>
+          </SuiClientProvider>
+        </QueryClientProvider>
 
-      <QueryClientProvider client={queryClient}>
-        <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
-          <WalletProvider autoConnect>
-            <App />
-          </WalletProvider>
-        </SuiClientProvider>
-      </QueryClientProvider>
+    </StrictMode>,
+  );
+}
 
-  </StrictMode>,
-);
\ No newline at end of file
+void start();
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { createNetworkConfig } from "@mysten/dapp-kit";
+import { getFullnodeUrl } from "@mysten/sui/client";
+import { DEMO_PACKAGE_ID } from "./demo/constants.ts";
+import { DEFAULT_PACKAGE_ID, parsePackageVersions } from "./sdk/index.ts";
+
+export const NETWORKS = ["localnet", "devnet", "testnet", "mainnet"] as const;
+export type Network = (typeof NETWORKS)[number];
+
+const env = import.meta.env;
+
+/**
+ * Offline demo (`npm run demo` or `VITE_DEMO_MODE=true`): localnet is an
+ * in-memory chain with demo accounts, and nothing touches the network.
+ */
+export const DEMO_MODE = env.MODE === "demo" || env.VITE_DEMO_MODE === "true";
+
+/**
+ * Package versions per network, original first; empty when the package
+ * isn't deployed there. Each can be overridden with
+ * `VITE_PACKAGE_ID_<NETWORK>`, comma-separated after an upgrade.
+ */
+const PACKAGE_VERSIONS: Record<Network, string[]> = {
+  localnet: DEMO_MODE
+    ? [DEMO_PACKAGE_ID]
+    : parsePackageVersions(env.VITE_PACKAGE_ID_LOCALNET),
+  devnet: parsePackageVersions(env.VITE_PACKAGE_ID_DEVNET),
+  testnet: parsePackageVersions(
+    env.VITE_PACKAGE_ID_TESTNET || DEFAULT_PACKAGE_ID,
+  ),
+  mainnet: parsePackageVersions(env.VITE_PACKAGE_ID_MAINNET),
+};
+
+/**
+ * Optional indexer API per network (`VITE_INDEXER_URL_<NETWORK>`). When set,
+ * the deposit list comes from the indexer instead of scanning events.
+ */
+const INDEXER_URLS: Record<Network, string> = {
+  localnet: env.VITE_INDEXER_URL_LOCALNET || "",
+  devnet: env.VITE_INDEXER_URL_DEVNET || "",
+  testnet: env.VITE_INDEXER_URL_TESTNET || "",
+  mainnet: env.VITE_INDEXER_URL_MAINNET || "",
+};
+
+/**
+ * Optional gas sponsor per network (`VITE_SPONSOR_URL_<NETWORK>`). When set,
+ * recipients without SUI for gas can still claim.
+ */
+const SPONSOR_URLS: Record<Network, string> = {
+  localnet: env.VITE_SPONSOR_URL_LOCALNET || "",
+  devnet: env.VITE_SPONSOR_URL_DEVNET || "",
+  testnet: env.VITE_SPONSOR_URL_TESTNET || "",
+  mainnet: env.VITE_SPONSOR_URL_MAINNET || "",
+};
+
+function network(name: Network) {
+  return {
+    // `sui start` listens on 127.0.0.1:9000, which is the localnet default.
+    url:
+      name === "localnet"
+        ? (env.VITE_LOCALNET_URL || getFullnodeUrl(name))
+        : getFullnodeUrl(name),
+    variables: {
+      // Calls go to the latest version.
+      packageId: PACKAGE_VERSIONS[name].at(-1) ?? "",
+      packageVersions: PACKAGE_VERSIONS[name],
+      indexerUrl: DEMO_MODE ? "" : INDEXER_URLS[name],
+      sponsorUrl: DEMO_MODE ? "" : SPONSOR_URLS[name],
+    },
+  };
+}
+
+export const { networkConfig, useNetworkVariable } = createNetworkConfig({
+  localnet: network("localnet"),
+  devnet: network("devnet"),
+  testnet: network("testnet"),
+  mainnet: network("mainnet"),
+});
+
+export const DEFAULT_NETWORK: Network = DEMO_MODE
+  ? "localnet"
+  : NETWORKS.includes(env.VITE_DEFAULT_NETWORK as Network)
+    ? (env.VITE_DEFAULT_NETWORK as Network)
+    : "testnet";
+
+/** Explorer page for a transaction; `null` on localnet. */
+export function explorerTxUrl(network: string, digest: string): string | null {
+  if (!NETWORKS.includes(network as Network) || network === "localnet") {
+    return null;
+  }
+  return `https://suiscan.xyz/${network}/tx/${digest}`;
+}
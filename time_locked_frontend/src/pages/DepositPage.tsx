@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router";
+import { useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+import {
+  describeError,
+  fallbackCoinInfo,
+  formatCoinAmount,
+  isSuiAddress,
+  normalizeCoinType,
+  type CoinInfo,
+  type DepositHistoryEntry,
+} from "../sdk/index.ts";
+import AddressName from "../components/AddressName.tsx";
+import AppHeader from "../components/AppHeader.tsx";
+import CalendarButton from "../components/CalendarButton.tsx";
+import DepositActions from "../components/DepositActions.tsx";
+import DepositDetails from "../components/DepositDetails.tsx";
+import PreflightPanel from "../components/PreflightPanel.tsx";
+import ShareDeposit from "../components/ShareDeposit.tsx";
+import { useDeposit, useDepositEntry } from "../hooks/useDeposits.ts";
+import { useNow } from "../hooks/useNow.ts";
+import { useTimeDeposits } from "../hooks/useTimeDeposits.ts";
+import { useTransactionFlow } from "../hooks/useTransactionFlow.ts";
+import {
+  STATUS_LABELS,
+  STATUS_STYLES,
+  depositUrl,
+  lockAt,
+  type DepositRow,
+} from "../lib/deposits.ts";
+import { unlockEvent } from "../lib/calendar.ts";
+import { fmtMs, shortId } from "../lib/format.ts";
+import { NETWORKS, type Network } from "../networkConfig.ts";
+
+type View =
+  | { kind: "loading" }
+  | { kind: "invalid" }
+  | { kind: "missing" }
+  | { kind: "error"; message: string }
+  | { kind: "live"; deposit: DepositRow }
+  | { kind: "withdrawn"; entry: DepositHistoryEntry };
+
+/** Standalone page for one deposit, reachable by link. */
+export default function DepositPage() {
+  const { id = "" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { network, selectNetwork } = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
+  const timeDeposits = useTimeDeposits();
+  const { pending, preflighting, prepare, confirm, cancel } =
+    useTransactionFlow();
+
+  const depositId = isSuiAddress(id) ? normalizeSuiObjectId(id) : null;
+  // Polls, so lock state and withdrawals stay current while the page is open.
+  const deposit = useDeposit(depositId);
+  // Withdrawn deposits no longer exist on chain; find their events.
+  const history = useDepositEntry(depositId, deposit.data === null);
+  const view: View = !depositId
+    ? { kind: "invalid" }
+    : deposit.error
+      ? { kind: "error", message: describeError(deposit.error) }
+      : deposit.isPending
+        ? { kind: "loading" }
+        : deposit.data
+          ? { kind: "live", deposit: deposit.data }
+          : history.error
+            ? { kind: "error", message: describeError(history.error) }
+            : history.isPending
+              ? { kind: "loading" }
+              : history.entry?.withdrawn
+                ? { kind: "withdrawn", entry: history.entry }
+                : { kind: "missing" };
+  const [coin, setCoin] = useState<CoinInfo | null>(null);
+
+  // Shared links name their network; honour it once, then drop it so the
+  // switcher keeps working.
+  const linkedNetwork = searchParams.get("network");
+  useEffect(() => {
+    if (!linkedNetwork) return;
+    if (NETWORKS.includes(linkedNetwork as Network) && linkedNetwork !== network) {
+      selectNetwork(linkedNetwork);
+    }
+    setSearchParams({}, { replace: true });
+  }, [linkedNetwork, network, selectNetwork, setSearchParams]);
+
+  const now = useNow();
+  const live = view.kind === "live" ? lockAt(view.deposit, now) : null;
+
+  const coinType =
+    view.kind === "live"
+      ? view.deposit.coinType
+      : view.kind === "withdrawn"
+        ? view.entry.created.coinType
+        : null;
+  useEffect(() => {
+    if (!coinType) return;
+    timeDeposits
+      .getCoinInfo(coinType)
+      .catch(() => fallbackCoinInfo(coinType))
+      .then(setCoin);
+  }, [timeDeposits, coinType]);
+
+  function formatAmount(amount: bigint, type: string) {
+    return formatCoinAmount(
+      amount,
+      coin?.coinType === normalizeCoinType(type) ? coin : fallbackCoinInfo(type),
+    );
+  }
+
+  function withdraw(deposit: DepositRow, as: "depositor" | "recipient") {
+    const params = { depositId: deposit.objectId, coinType: deposit.coinType };
+    const tx =
+      as === "depositor"
+        ? timeDeposits.withdrawByDepositor(params)
+        : timeDeposits.withdrawByRecipient(params);
+    prepare(
+      as === "depositor" ? "Cancel deposit" : "Claim deposit",
+      tx,
+      undefined,
+      { sponsorable: as === "recipient" },
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white p-4">
+      <div className="relative max-w-6xl mx-auto">
+        <AppHeader />
+
+        <div className="mb-6">
+          <Link to="/" className="text-sm text-slate-400 hover:text-white">
+            ← All deposits
+          </Link>
+        </div>
+
+        {view.kind === "loading" && <Notice title="Loading deposit..." />}
+        {view.kind === "invalid" && (
+          <Notice
+            title="That's not a deposit ID"
+            detail={`"${id}" is not a valid Sui object ID.`}
+          />
+        )}
+        {view.kind === "missing" && (
+          <Notice
+            title="Deposit not found"
+            detail={`No time-locked deposit ${shortId(normalizeSuiObjectId(id))} exists on ${network}. It may live on another network, or the ID may belong to a different kind of object.`}
+          />
+        )}
+        {view.kind === "error" && (
+          <Notice title="Couldn't load this deposit" detail={view.message} />
+        )}
+
+        {live && (
+          <div className="grid lg:grid-cols-2 gap-8">
+            <div className="space-y-8">
+              <DepositDetails
+                deposit={live}
+                formatAmount={formatAmount}
+                headerAction={
+                  live.lock &&
+                  !live.lock.canRecipientWithdraw && (
+                    <CalendarButton
+                      label="Add to calendar"
+                      filename={`deposit-${live.objectId.slice(2, 10)}.ics`}
+                      events={() => [
+                        unlockEvent(
+                          live,
+                          formatAmount(live.balance, live.coinType),
+                          depositUrl(live.objectId, network),
+                          currentAccount?.address,
+                        ),
+                      ]}
+                    />
+                  )
+                }
+              >
+                <DepositActions
+                  deposit={live}
+                  address={currentAccount?.address}
+                  disabled={preflighting}
+                  onWithdraw={(as) => withdraw(live, as)}
+                />
+              </DepositDetails>
+              {pending && currentAccount && (
+                <PreflightPanel
+                  label={pending.label}
+                  result={pending.result}
+                  sender={currentAccount.address}
+                  sponsored={!!pending.sponsored}
+                  formatAmount={formatAmount}
+                  onConfirm={confirm}
+                  onCancel={cancel}
+                />
+              )}
+            </div>
+            <div className="space-y-8">
+              <ShareDeposit url={depositUrl(live.objectId, network)} />
+            </div>
+          </div>
+        )}
+
+        {view.kind === "withdrawn" && (
+          <WithdrawnDeposit entry={view.entry} formatAmount={formatAmount} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Notice({ title, detail }: { title: string; detail?: string }) {
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl text-center py-16">
+      <p className="text-xl font-semibold">{title}</p>
+      {detail && (
+        <p className="text-sm text-slate-400 mt-2 break-words">{detail}</p>
+      )}
+    </div>
+  );
+}
+
+interface WithdrawnDepositProps {
+  entry: DepositHistoryEntry;
+  formatAmount: (amount: bigint, coinType: string) => string;
+}
+
+function WithdrawnDeposit({ entry, formatAmount }: WithdrawnDepositProps) {
+  const { created, withdrawn, status } = entry;
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+      <div className="flex items-center mb-6">
+        <h2 className="text-2xl font-bold">
+          {formatAmount(created.amount, created.coinType)}
+        </h2>
+        <span
+          className={`ml-3 px-3 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status]}`}
+        >
+          {STATUS_LABELS[status]}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 gap-4 text-sm">
+        <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+          <p className="text-slate-400 mb-1">Depositor</p>
+          <p className="text-white">
+            <AddressName address={created.depositor} full />
+          </p>
+        </div>
+        <div className="p-4 rounded-xl bg-white/5 border border-white/10">
+          <p className="text-slate-400 mb-1">Recipient</p>
+          <p className="text-white">
+            <AddressName address={created.recipient} full />
+          </p>
+        </div>
+        <ol className="space-y-1 text-xs text-slate-400 border-l border-white/20 pl-4">
+          <li>
+            Created {fmtMs(created.startTime)}, unlocks{" "}
+            {fmtMs(created.unlockTime)}
+          </li>
+          {withdrawn && (
+            <li>
+              {status === "cancelled" ? "Cancelled" : "Claimed"}{" "}
+              {fmtMs(withdrawn.withdrawTime)} by{" "}
+              <AddressName address={withdrawn.withdrawer} />
+            </li>
+          )}
+        </ol>
+      </div>
+    </div>
+  );
+}
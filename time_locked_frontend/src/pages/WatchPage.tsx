@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router";
+import {
+  describeError,
+  fallbackCoinInfo,
+  formatCoinAmount,
+  normalizeCoinType,
+  type CoinInfo,
+} from "../sdk/index.ts";
+import AddressName from "../components/AddressName.tsx";
+import AppHeader from "../components/AppHeader.tsx";
+import DepositCard from "../components/DepositCard.tsx";
+import DepositTotals from "../components/DepositTotals.tsx";
+import { useAddressNames } from "../hooks/useAddressNames.ts";
+import {
+  useDepositHistories,
+  useDeposits,
+} from "../hooks/useDeposits.ts";
+import { useNow } from "../hooks/useNow.ts";
+import { useTimeDeposits } from "../hooks/useTimeDeposits.ts";
+import { depositPath, lockAt, type DepositRow } from "../lib/deposits.ts";
+import {
+  DEFAULT_FILTER,
+  byDirection,
+  filterDeposits,
+  totalsByCoin,
+  type DepositDirection,
+} from "../lib/depositList.ts";
+import { addWatched, loadWatchList, removeWatched } from "../lib/watchList.ts";
+import { fmtMs, formatDuration } from "../lib/format.ts";
+
+/** How many of the soonest unlocks the overview lists. */
+const UPCOMING_LIMIT = 10;
+
+/**
+ * Read-only view of the deposits sent and received by any set of addresses,
+ * for wallets that never connect here, such as multisigs and cold storage.
+ */
+export default function WatchPage() {
+  const timeDeposits = useTimeDeposits();
+  const { resolver } = useAddressNames();
+  const navigate = useNavigate();
+
+  const [watched, setWatched] = useState(loadWatchList);
+  const [input, setInput] = useState("");
+  const [inputError, setInputError] = useState("");
+  const [coinInfos, setCoinInfos] = useState<Record<string, CoinInfo>>({});
+
+  const histories = useDepositHistories(watched);
+  // Two watched addresses can be either side of the same deposit.
+  const activeIds = [
+    ...new Set(
+      histories.histories
+        .flat()
+        .filter((e) => e.status === "active")
+        .map((e) => e.created.depositId),
+    ),
+  ];
+  const { deposits: rows, ...live } = useDeposits(activeIds);
+  const loading = histories.isFetching || live.isLoading;
+  const failure = histories.error ?? live.error;
+  const error = failure ? describeError(failure) : "";
+
+  const coinTypes = [
+    ...new Set(rows.map((r) => normalizeCoinType(r.coinType))),
+  ].join();
+  useEffect(() => {
+    const missing = coinTypes
+      .split(",")
+      .filter((t) => t && !coinInfos[t]);
+    if (missing.length === 0) return;
+    Promise.all(
+      missing.map((t) =>
+        timeDeposits.getCoinInfo(t).catch(() => fallbackCoinInfo(t)),
+      ),
+    ).then((loaded) =>
+      setCoinInfos((prev) => ({
+        ...prev,
+        ...Object.fromEntries(loaded.map((c) => [c.coinType, c])),
+      })),
+    );
+  }, [timeDeposits, coinTypes, coinInfos]);
+
+  const now = useNow();
+  const deposits = rows.map((r) => lockAt(r, now));
+  const totals = totalsByCoin(deposits);
+  const upcoming = filterDeposits(deposits, "sent", {
+    ...DEFAULT_FILTER,
+    lock: "locked",
+  }).slice(0, UPCOMING_LIMIT);
+
+  function formatAmount(amount: bigint, type: string) {
+    return formatCoinAmount(
+      amount,
+      coinInfos[normalizeCoinType(type)] ?? fallbackCoinInfo(type),
+    );
+  }
+
+  async function add() {
+    let address: string | null;
+    try {
+      address = await resolver.addressOf(input);
+    } catch {
+      setInputError(`Couldn't look up ${input.trim()}; try again.`);
+      return;
+    }
+    if (!address) {
+      setInputError(
+        `${input.trim()} is not an address or a registered SuiNS name.`,
+      );
+      return;
+    }
+    setWatched((list) => addWatched(list, address));
+    setInput("");
+    setInputError("");
+  }
+
+  const open = (deposit: DepositRow) => navigate(depositPath(deposit.objectId));
+
+  return (
+    <div className="min-h-screen bg-black text-white p-4">
+      <div className="relative max-w-6xl mx-auto">
+        <AppHeader />
+
+        <div className="mb-6">
+          <Link to="/" className="text-sm text-slate-400 hover:text-white">
+            ← Your deposits
+          </Link>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          <div className="space-y-8">
+            {/* Watch List */}
+            <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-2xl font-bold">Watch List</h2>
+                <button
+                  onClick={() => histories.refetch()}
+                  disabled={loading || watched.length === 0}
+                  className="px-6 py-3 text-sm bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-200 disabled:opacity-50 border border-white/20"
+                >
+                  {loading ? "Loading..." : "Refresh"}
+                </button>
+              </div>
+              <p className="text-sm text-slate-400 mb-6">
+                Follow any address read-only; nothing here can sign or move
+                funds.
+              </p>
+
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/20 text-white placeholder-slate-400 text-sm focus:outline-none"
+                  placeholder="0x... or name.sui"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && input.trim() && add()}
+                />
+                <button
+                  onClick={add}
+                  disabled={!input.trim()}
+                  className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-white text-sm border border-white/20 disabled:opacity-50"
+                >
+                  Watch
+                </button>
+              </div>
+              {inputError && (
+                <p className="text-sm text-red-300 mt-2">{inputError}</p>
+              )}
+              {error && (
+                <p className="text-sm text-red-300 mt-2">
+                  Failed to load deposits: {error}
+                </p>
+              )}
+
+              <ul className="space-y-2 mt-6">
+                {watched.map((address) => (
+                  <li
+                    key={address}
+                    className="flex items-center justify-between p-3 rounded-xl bg-white/5 border border-white/10 text-sm"
+                  >
+                    <span>
+                      <AddressName address={address} />
+                      <span className="text-xs text-slate-400 ml-2">
+                        {byDirection(deposits, address, "sent").length} sent ·{" "}
+                        {byDirection(deposits, address, "incoming").length}{" "}
+                        incoming
+                      </span>
+                    </span>
+                    <button
+                      onClick={() =>
+                        setWatched((list) => removeWatched(list, address))
+                      }
+                      className="text-xs text-slate-400 hover:text-red-300"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Aggregates */}
+            {deposits.length > 0 && (
+              <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+                <h2 className="text-2xl font-bold mb-6">Locked Balances</h2>
+                <div className="space-y-2">
+                  {totals.map((t) => (
+                    <div
+                      key={t.coinType}
+                      className="flex justify-between p-3 rounded-xl bg-white/5 border border-white/10 text-sm"
+                    >
+                      <span className="text-white font-semibold">
+                        {formatAmount(t.total - t.unlocked, t.coinType)} locked
+                      </span>
+                      <span className="text-slate-400">
+                        {formatAmount(t.unlocked, t.coinType)} unlocked ·{" "}
+                        {t.count} {t.count === 1 ? "deposit" : "deposits"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <h3 className="text-lg font-semibold mt-8 mb-4">
+                  Upcoming Unlocks
+                </h3>
+                {upcoming.length === 0 && (
+                  <p className="text-sm text-slate-400">
+                    Every watched deposit has unlocked.
+                  </p>
+                )}
+                <ul className="space-y-2">
+                  {upcoming.map((d) => (
+                    <li key={d.objectId}>
+                      <Link
+                        to={depositPath(d.objectId)}
+                        className="block p-3 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 text-sm"
+                      >
+                        <div className="flex justify-between">
+                          <span className="text-white font-semibold">
+                            {formatAmount(d.balance, d.coinType)}
+                          </span>
+                          <span className="text-slate-300">
+                            in {formatDuration(d.lock?.timeUntilUnlock ?? 0)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-slate-400 mt-1">
+                          <AddressName address={d.depositor} /> →{" "}
+                          <AddressName address={d.recipient} /> ·{" "}
+                          {fmtMs(d.unlockTime)}
+                        </p>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-8">
+            {watched.length === 0 && (
+              <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl text-center py-16">
+                <p className="text-slate-300">No addresses watched yet</p>
+                <p className="text-sm text-slate-400 mt-2">
+                  Add one to see the deposits it has sent and received.
+                </p>
+              </div>
+            )}
+            {watched.map((address) => (
+              <WatchedAddress
+                key={address}
+                address={address}
+                deposits={deposits}
+                formatAmount={formatAmount}
+                onOpen={open}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface WatchedAddressProps {
+  address: string;
+  deposits: DepositRow[];
+  formatAmount: (amount: bigint, coinType: string) => string;
+  onOpen: (deposit: DepositRow) => void;
+}
+
+/** One watched address's sent and incoming deposits. */
+function WatchedAddress({
+  address,
+  deposits,
+  formatAmount,
+  onOpen,
+}: WatchedAddressProps) {
+  const [direction, setDirection] = useState<DepositDirection>("sent");
+  const own = byDirection(deposits, address, direction);
+  const list = filterDeposits(own, direction, DEFAULT_FILTER);
+
+  return (
+    <div className="backdrop-blur-xl bg-white/10 rounded-3xl p-8 border border-white/20 shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">
+          <AddressName address={address} />
+        </h2>
+        <div className="flex gap-2">
+          {(["sent", "incoming"] as const).map((d) => (
+            <button
+              key={d}
+              onClick={() => setDirection(d)}
+              className={`px-4 py-2 text-sm rounded-xl font-medium capitalize transition-all duration-200 border ${
+                direction === d
+                  ? "bg-blue-500/20 border-blue-400 text-white"
+                  : "bg-white/5 border-white/10 text-slate-300 hover:bg-white/10"
+              }`}
+            >
+              {d}
+            </button>
+          ))}
+        </div>
+      </div>
+      <DepositTotals
+        direction={direction}
+        totals={totalsByCoin(own)}
+        formatAmount={formatAmount}
+      />
+      {list.length === 0 && (
+        <p className="text-center text-sm text-slate-400 py-8">
+          No live {direction} deposits.
+        </p>
+      )}
+      <div className="space-y-4 max-h-96 overflow-y-auto custom-scrollbar">
+        {list.map((deposit) => (
+          <DepositCard
+            key={deposit.objectId}
+            deposit={deposit}
+            direction={direction}
+            selected={false}
+            formatAmount={formatAmount}
+            onSelect={onOpen}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
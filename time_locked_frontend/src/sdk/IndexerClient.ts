@@ -0,0 +1,155 @@
+import type { DepositLifecycle, DepositHistoryEntry } from "./sync.ts";
+import type { WithdrawnBy } from "./constants.ts";
+
+const HISTORY_PAGE_SIZE = 500;
+
+/**
+ * One deposit as served by the indexer's REST API. u64 amounts are decimal
+ * strings so they survive JSON.
+ */
+export interface DepositRecord {
+  depositId: string;
+  coinType: string;
+  depositor: string;
+  recipient: string;
+  amount: string;
+  startTime: number;
+  duration: number;
+  unlockTime: number;
+  status: DepositLifecycle;
+  createdTx: string;
+  createdEventSeq: string;
+  createdAt: number | null;
+  withdrawer: string | null;
+  withdrawTime: number | null;
+  amountWithdrawn: string | null;
+  withdrawnBy: WithdrawnBy | null;
+  withdrawnTx: string | null;
+  withdrawnEventSeq: string | null;
+  withdrawnAt: number | null;
+}
+
+export interface DepositQuery {
+  depositor?: string;
+  recipient?: string;
+  /** Matches either role. */
+  address?: string;
+  status?: DepositLifecycle;
+  coinType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexerStats {
+  deposits: Record<DepositLifecycle, number>;
+  /** Amount still locked in active deposits, per coin type. */
+  lockedByCoinType: Record<string, string>;
+  depositors: number;
+  recipients: number;
+  cursor: { txDigest: string; eventSeq: string } | null;
+}
+
+/** Rebuilds the event pair a record was indexed from. */
+export function recordToHistoryEntry(r: DepositRecord): DepositHistoryEntry {
+  return {
+    status: r.status,
+    created: {
+      depositId: r.depositId,
+      coinType: r.coinType,
+      depositor: r.depositor,
+      recipient: r.recipient,
+      amount: BigInt(r.amount),
+      startTime: r.startTime,
+      duration: r.duration,
+      unlockTime: r.unlockTime,
+      txDigest: r.createdTx,
+      eventSeq: r.createdEventSeq,
+      timestampMs: r.createdAt,
+    },
+    withdrawn:
+      r.withdrawnTx === null
+        ? null
+        : {
+            depositId: r.depositId,
+            coinType: r.coinType,
+            withdrawer: r.withdrawer!,
+            withdrawTime: r.withdrawTime!,
+            amountWithdrawn: BigInt(r.amountWithdrawn!),
+            withdrawnBy: r.withdrawnBy!,
+            txDigest: r.withdrawnTx,
+            eventSeq: r.withdrawnEventSeq!,
+            timestampMs: r.withdrawnAt,
+          },
+  };
+}
+
+/** A non-2xx answer from the indexer. */
+export class IndexerHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "IndexerHttpError";
+    this.status = status;
+  }
+}
+
+/** Reads deposits from a running indexer (`indexer/` in this repo). */
+export class IndexerClient {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`);
+    if (!res.ok) {
+      throw new IndexerHttpError(
+        res.status,
+        `Indexer ${path} failed: ${res.status} ${res.statusText}`,
+      );
+    }
+    return res.json() as Promise<T>;
+  }
+
+  async getDeposits(query: DepositQuery = {}): Promise<DepositRecord[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.get(`/deposits${qs ? `?${qs}` : ""}`);
+  }
+
+  /** `null` when the indexer has never seen the deposit. */
+  async getDeposit(id: string): Promise<DepositRecord | null> {
+    try {
+      return await this.get(`/deposits/${encodeURIComponent(id)}`);
+    } catch (e) {
+      if (e instanceof IndexerHttpError && e.status === 404) return null;
+      throw e;
+    }
+  }
+
+  getStats(): Promise<IndexerStats> {
+    return this.get("/stats");
+  }
+
+  /** Same shape as `DepositIndex.historyFor`, newest first. */
+  async historyFor(address: string): Promise<DepositHistoryEntry[]> {
+    const records: DepositRecord[] = [];
+    for (;;) {
+      const page = await this.getDeposits({
+        address,
+        limit: HISTORY_PAGE_SIZE,
+        offset: records.length,
+      });
+      records.push(...page);
+      if (page.length < HISTORY_PAGE_SIZE) break;
+    }
+    return records
+      .map(recordToHistoryEntry)
+      .sort((a, b) => b.created.startTime - a.created.startTime);
+  }
+}
@@ -0,0 +1,74 @@
+import { toBase64 } from "@mysten/sui/utils";
+
+/** Body of `POST /sponsor`. */
+export interface SponsorRequest {
+  sender: string;
+  /** Base64 `TransactionKind`, built with `onlyTransactionKind: true`. */
+  transactionKind: string;
+}
+
+/** A complete transaction with the sponsor's gas on it. */
+export interface SponsoredTransaction {
+  /** Base64 `TransactionData`; the sender signs exactly these bytes. */
+  bytes: string;
+}
+
+/** Body of `POST /execute`. */
+export interface SponsorExecuteRequest {
+  /** `bytes` of a `SponsoredTransaction`. */
+  bytes: string;
+  /** The sender's signature over `bytes`. */
+  signature: string;
+}
+
+/**
+ * Asks a gas sponsor (`sponsor/` in this repo) to pay for a transaction.
+ * The sender signs the returned bytes and hands the signature back; the
+ * sponsor adds its own and submits. Transactions that won't be signed
+ * should be released, so their gas coin goes back to the sponsor's pool.
+ */
+export class SponsorClient {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  sponsor(
+    sender: string,
+    transactionKind: Uint8Array,
+  ): Promise<SponsoredTransaction> {
+    const body: SponsorRequest = {
+      sender,
+      transactionKind: toBase64(transactionKind),
+    };
+    return this.post("/sponsor", body);
+  }
+
+  /** Submits a sponsored transaction with the sender's `signature`. */
+  execute(bytes: string, signature: string): Promise<{ digest: string }> {
+    const body: SponsorExecuteRequest = { bytes, signature };
+    return this.post("/execute", body);
+  }
+
+  /** Gives up a sponsored transaction that won't be signed. */
+  release(bytes: string): Promise<{ released: boolean }> {
+    return this.post("/release", { bytes });
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      // The sponsor explains refusals, e.g. rate limits, in `error`.
+      const reason = await (res.json() as Promise<{ error?: string }>)
+        .then((b) => b.error)
+        .catch(() => undefined);
+      throw new Error(`Sponsor declined: ${reason ?? res.statusText}`);
+    }
+    return res.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SuiClient } from "@mysten/sui/client";
+import { TimeDepositClient } from "./TimeDepositClient.ts";
+import { parsePackageVersions } from "./packages.ts";
+
+const V1 = `0x${"1".padStart(64, "0")}`;
+const V2 = `0x${"2".padStart(64, "0")}`;
+const V3 = `0x${"3".padStart(64, "0")}`;
+
+function fakeClient() {
+  const queries: unknown[] = [];
+  return {
+    queries,
+    queryEvents: vi.fn(async ({ query }: { query: unknown }) => {
+      queries.push(query);
+      return { data: [], nextCursor: null, hasNextPage: false };
+    }),
+    multiGetObjects: vi.fn(async ({ ids }: { ids: string[] }) => {
+      queries.push(ids.length);
+      return ids.map(() => ({}));
+    }),
+  };
+}
+
+describe("parsePackageVersions", () => {
+  it("reads one ID or a comma-separated upgrade history", () => {
+    expect(parsePackageVersions(undefined)).toEqual([]);
+    expect(parsePackageVersions(" ")).toEqual([]);
+    expect(parsePackageVersions("0x1")).toEqual([V1]);
+    expect(parsePackageVersions("0x1, 0x2,0x3,")).toEqual([V1, V2, V3]);
+  });
+});
+
+describe("TimeDepositClient across upgrades", () => {
+  it("calls the latest version", () => {
+    const timeDeposits = new TimeDepositClient({
+      client: fakeClient() as unknown as SuiClient,
+      packageId: V3,
+      packageVersions: [V1, V2, V3],
+    });
+    const tx = timeDeposits.withdrawByRecipient({ depositId: "0xd1" });
+    const [command] = tx.getData().commands;
+    expect(command.MoveCall?.package).toBe(V3);
+    expect(timeDeposits.originalPackageId).toBe(V1);
+  });
+
+  it("queries events under the original ID", async () => {
+    const client = fakeClient();
+    const timeDeposits = new TimeDepositClient({
+      client: client as unknown as SuiClient,
+      packageId: V3,
+      packageVersions: [V1, V2],
+    });
+    expect(timeDeposits.packageVersions).toEqual([V1, V2, V3]);
+
+    await timeDeposits.queryDepositEvents();
+    await timeDeposits.queryDepositCreated();
+    expect(client.queries).toEqual([
+      { MoveEventModule: { package: V1, module: "deposit" } },
+      { MoveEventType: `${V1}::deposit::DepositCreated<0x2::sui::SUI>` },
+    ]);
+  });
+
+  it("treats a never-upgraded package as its own original", () => {
+    const timeDeposits = new TimeDepositClient({
+      client: fakeClient() as unknown as SuiClient,
+      packageId: V1,
+    });
+    expect(timeDeposits.packageVersions).toEqual([V1]);
+    expect(timeDeposits.originalPackageId).toBe(V1);
+  });
+});
+
+describe("TimeDepositClient.getDeposits", () => {
+  it("reads at most 50 objects per request", async () => {
+    const client = fakeClient();
+    const timeDeposits = new TimeDepositClient({
+      client: client as unknown as SuiClient,
+      packageId: V1,
+    });
+    const ids = Array.from({ length: 120 }, (_, i) => `0x${i.toString(16)}`);
+    const deposits = await timeDeposits.getDeposits(ids);
+    expect(client.queries).toEqual([50, 50, 20]);
+    expect(deposits.size).toBe(0);
+  });
+});
+
+describe("TimeDepositClient.inspectDeposits", () => {
+  const deposits = [
+    { objectId: V1, coinType: "0x2::sui::SUI" },
+    { objectId: V2, coinType: "0x2::sui::SUI" },
+  ];
+  const withInspect = (devInspectTransactionBlock: () => Promise<unknown>) =>
+    new TimeDepositClient({
+      client: { devInspectTransactionBlock } as unknown as SuiClient,
+      packageId: V3,
+    });
+
+  it("leaves out deposits that no longer exist", async () => {
+    const inspect = vi.fn(async () => {
+      throw new Error(
+        `The following input objects are invalid: {"code":"deleted","object_id":"${V1}","version":"7","digest":"x"}`,
+      );
+    });
+    expect(await withInspect(inspect).inspectDeposits(deposits)).toEqual(
+      new Map(),
+    );
+    // The batch, then each deposit on its own.
+    expect(inspect).toHaveBeenCalledTimes(3);
+  });
+
+  it("passes other failures on", async () => {
+    const inspect = vi.fn(async () => {
+      throw new Error("fetch failed");
+    });
+    await expect(
+      withInspect(inspect).inspectDeposits(deposits),
+    ).rejects.toThrow("fetch failed");
+  });
+});
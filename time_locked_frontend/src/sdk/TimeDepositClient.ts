@@ -0,0 +1,524 @@
+import type {
+  BalanceChange,
+  EventId,
+  SuiClient,
+} from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import { Transaction, coinWithBalance } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { fallbackCoinInfo, normalizeCoinType, type CoinInfo } from "./coins.ts";
+import {
+  CLOCK_OBJECT_ID,
+  MAX_DEPOSITS_PER_TRANSACTION,
+  MODULE_NAME,
+  SUI_COIN_TYPE,
+} from "./constants.ts";
+import { decodeAbort, describeError, type TimeDepositError } from "./errors.ts";
+import {
+  parseDepositCreated,
+  parseDepositEvent,
+  parseDepositWithdrawn,
+  parseTimeDeposit,
+} from "./parsers.ts";
+import { isVestingTransaction } from "./vesting.ts";
+import type {
+  DepositCreated,
+  DepositEvent,
+  DepositStatus,
+  DepositWithdrawn,
+  Page,
+  TimeDeposit,
+} from "./types.ts";
+
+export interface TimeDepositClientOptions {
+  client: SuiClient;
+  /** Latest published version; transactions call into it. */
+  packageId: string;
+  /**
+   * Every published version, original first, once the package has been
+   * upgraded. Defaults to `[packageId]`.
+   */
+  packageVersions?: readonly string[];
+}
+
+export interface CreateDepositParams {
+  amount: bigint;
+  recipient: string;
+  durationMinutes: number;
+  coinType?: string;
+}
+
+export interface WithdrawParams {
+  depositId: string;
+  coinType?: string;
+}
+
+/**
+ * Whether `error` is the transaction builder refusing inputs that were
+ * deleted or never existed, as opposed to a network or RPC failure.
+ */
+function isMissingObjectError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    message.includes("input objects are invalid") &&
+    /"code":"(deleted|notExists)"/.test(message)
+  );
+}
+
+/** Deposits per `devInspectTransactionBlock`; each costs three commands. */
+const INSPECT_BATCH_SIZE = 50;
+
+/** Most IDs or digests the `multiGet*` methods accept per request. */
+const MULTI_GET_BATCH_SIZE = 50;
+
+// Return values of the view functions, in order.
+const DepositInfoTuple = [
+  bcs.Address, // depositor
+  bcs.Address, // recipient
+  bcs.u64(), // amount
+  bcs.u64(), // start_time
+  bcs.u64(), // duration
+  bcs.u64(), // unlock_time
+  bcs.u64(), // current_time
+] as const;
+
+export interface QueryEventsParams {
+  coinType?: string;
+  cursor?: EventId | null;
+  limit?: number;
+  order?: "ascending" | "descending";
+}
+
+/** Outcome of simulating a transaction before it is signed. */
+export interface DryRunResult {
+  ok: boolean;
+  /** Readable failure reason; `null` when `ok`. */
+  error: string | null;
+  /** Set when the failure is a `deposit` module abort. */
+  abort: TimeDepositError | null;
+  /** Net gas in MIST (computation + storage - rebate); `null` if unknown. */
+  gasCost: bigint | null;
+  balanceChanges: BalanceChange[];
+}
+
+/**
+ * Framework-free access to the `time_locked_deposit::deposit` module:
+ * transaction builders for its entry functions and typed reads over
+ * `SuiClient`.
+ */
+export class TimeDepositClient {
+  readonly client: SuiClient;
+  readonly packageId: string;
+  /** Every version, original first and `packageId` last. */
+  readonly packageVersions: readonly string[];
+  private coinInfos = new Map<string, Promise<CoinInfo>>();
+
+  constructor({ client, packageId, packageVersions }: TimeDepositClientOptions) {
+    this.client = client;
+    this.packageId = packageId;
+    const earlier = (packageVersions ?? []).filter((id) => id !== packageId);
+    this.packageVersions = [...earlier, packageId];
+  }
+
+  /**
+   * ID of the first publish. Upgrades keep the types it defined under this
+   * ID, so objects and events from every version are named after it.
+   */
+  get originalPackageId(): string {
+    return this.packageVersions[0];
+  }
+
+  private target(fn: string) {
+    return `${this.packageId}::${MODULE_NAME}::${fn}` as const;
+  }
+
+  private eventType(name: string, coinType: string) {
+    return `${this.originalPackageId}::${MODULE_NAME}::${name}<${coinType}>`;
+  }
+
+  // ----------------
+  // Transaction builders
+  // ----------------
+
+  /**
+   * Locks `amount` of `coinType` for `recipient`. SUI is split from the gas
+   * coin; other coin types are selected from the sender's coins and merged
+   * when the transaction is built, so the sender must be set by then.
+   */
+  createDeposit(
+    { amount, recipient, durationMinutes, coinType = SUI_COIN_TYPE }: CreateDepositParams,
+    tx = new Transaction(),
+  ): Transaction {
+    const coin = tx.add(coinWithBalance({ type: coinType, balance: amount }));
+    tx.moveCall({
+      target: this.target("create_deposit"),
+      typeArguments: [coinType],
+      arguments: [
+        coin,
+        tx.pure.address(recipient),
+        tx.pure.u64(durationMinutes),
+        tx.object(CLOCK_OBJECT_ID),
+      ],
+    });
+    return tx;
+  }
+
+  /**
+   * Creates many deposits, one `create_deposit` call each. Coins of each
+   * type are selected and split once for the whole transaction. Use
+   * `createDepositBatches` when the list may exceed one transaction.
+   */
+  createDeposits(
+    deposits: CreateDepositParams[],
+    tx = new Transaction(),
+  ): Transaction {
+    for (const deposit of deposits) this.createDeposit(deposit, tx);
+    return tx;
+  }
+
+  /** Splits `deposits` across as many transactions as the PTB limits need. */
+  createDepositBatches(deposits: CreateDepositParams[]): Transaction[] {
+    const batches: Transaction[] = [];
+    for (let i = 0; i < deposits.length; i += MAX_DEPOSITS_PER_TRANSACTION) {
+      batches.push(
+        this.createDeposits(
+          deposits.slice(i, i + MAX_DEPOSITS_PER_TRANSACTION),
+        ),
+      );
+    }
+    return batches;
+  }
+
+  withdrawByDepositor(
+    { depositId, coinType = SUI_COIN_TYPE }: WithdrawParams,
+    tx = new Transaction(),
+  ): Transaction {
+    tx.moveCall({
+      target: this.target("withdraw_by_depositor"),
+      typeArguments: [coinType],
+      arguments: [tx.object(depositId), tx.object(CLOCK_OBJECT_ID)],
+    });
+    return tx;
+  }
+
+  withdrawByRecipient(
+    { depositId, coinType = SUI_COIN_TYPE }: WithdrawParams,
+    tx = new Transaction(),
+  ): Transaction {
+    tx.moveCall({
+      target: this.target("withdraw_by_recipient"),
+      typeArguments: [coinType],
+      arguments: [tx.object(depositId), tx.object(CLOCK_OBJECT_ID)],
+    });
+    return tx;
+  }
+
+  /**
+   * Claims every given deposit as recipient, grouped by coin type and split
+   * across as many transactions as the PTB limits need.
+   */
+  withdrawAllByRecipientBatches(deposits: WithdrawParams[]): Transaction[] {
+    const sorted = [...deposits].sort((a, b) =>
+      normalizeCoinType(a.coinType ?? SUI_COIN_TYPE).localeCompare(
+        normalizeCoinType(b.coinType ?? SUI_COIN_TYPE),
+      ),
+    );
+    const batches: Transaction[] = [];
+    for (let i = 0; i < sorted.length; i += MAX_DEPOSITS_PER_TRANSACTION) {
+      const tx = new Transaction();
+      for (const deposit of sorted.slice(i, i + MAX_DEPOSITS_PER_TRANSACTION)) {
+        this.withdrawByRecipient(deposit, tx);
+      }
+      batches.push(tx);
+    }
+    return batches;
+  }
+
+  /**
+   * Simulates `tx` as `sender`. Building also sets the gas budget from the
+   * simulation, so the same `tx` can be signed afterwards. Already-built
+   * bytes, such as a sponsored transaction, are simulated as they are.
+   */
+  async dryRun(
+    tx: Transaction | Uint8Array,
+    sender: string,
+  ): Promise<DryRunResult> {
+    let bytes: Uint8Array;
+    try {
+      if (tx instanceof Uint8Array) {
+        bytes = tx;
+      } else {
+        tx.setSenderIfNotSet(sender);
+        bytes = await tx.build({ client: this.client });
+      }
+    } catch (e) {
+      // Budget estimation dry-runs too, so aborts usually surface here.
+      return {
+        ok: false,
+        error: describeError(e),
+        abort: decodeAbort(e),
+        gasCost: null,
+        balanceChanges: [],
+      };
+    }
+
+    const res = await this.client.dryRunTransactionBlock({
+      transactionBlock: bytes,
+    });
+    const { status, gasUsed } = res.effects;
+    const failed = status.status === "failure";
+    return {
+      ok: !failed,
+      error: failed ? describeError(status.error) : null,
+      abort: failed ? decodeAbort(status.error) : null,
+      gasCost:
+        BigInt(gasUsed.computationCost) +
+        BigInt(gasUsed.storageCost) -
+        BigInt(gasUsed.storageRebate),
+      balanceChanges: res.balanceChanges,
+    };
+  }
+
+  // ----------------
+  // Reads
+  // ----------------
+
+  /**
+   * Evaluates `get_deposit_info`, `can_recipient_withdraw` and
+   * `time_until_unlock` for each deposit through `devInspectTransactionBlock`,
+   * batched. Deposits that no longer exist are left out of the result.
+   */
+  async inspectDeposits(
+    deposits: Pick<TimeDeposit, "objectId" | "coinType">[],
+  ): Promise<Map<string, DepositStatus>> {
+    const statuses = new Map<string, DepositStatus>();
+    for (let i = 0; i < deposits.length; i += INSPECT_BATCH_SIZE) {
+      const batch = deposits.slice(i, i + INSPECT_BATCH_SIZE);
+      let results = await this.inspectBatch(batch);
+      // One deleted deposit fails the whole batch; fall back to one by one.
+      if (!results && batch.length > 1) {
+        results = [];
+        for (const deposit of batch) {
+          results.push(...((await this.inspectBatch([deposit])) ?? []));
+        }
+      }
+      for (const status of results ?? []) statuses.set(status.objectId, status);
+    }
+    return statuses;
+  }
+
+  private async inspectBatch(
+    deposits: Pick<TimeDeposit, "objectId" | "coinType">[],
+  ): Promise<DepositStatus[] | null> {
+    const tx = new Transaction();
+    for (const { objectId, coinType } of deposits) {
+      for (const fn of [
+        "get_deposit_info",
+        "can_recipient_withdraw",
+        "time_until_unlock",
+      ]) {
+        tx.moveCall({
+          target: this.target(fn),
+          typeArguments: [coinType],
+          arguments: [tx.object(objectId), tx.object(CLOCK_OBJECT_ID)],
+        });
+      }
+    }
+
+    let res;
+    try {
+      res = await this.client.devInspectTransactionBlock({
+        sender: normalizeSuiAddress("0x0"),
+        transactionBlock: tx,
+      });
+    } catch (e) {
+      // Resolving a deleted object's inputs throws before execution; any
+      // other failure, e.g. the RPC being down, is the caller's to see.
+      if (isMissingObjectError(e)) return null;
+      throw e;
+    }
+    if (res.error || !res.results) return null;
+
+    return deposits.map(({ objectId, coinType }, i) => {
+      const [info, canWithdraw, remaining] = res.results!.slice(i * 3);
+      const values = (r: typeof info) =>
+        (r.returnValues ?? []).map(([bytes]) => Uint8Array.from(bytes));
+      const infoValues = values(info);
+      const [depositor, recipient, amount, startTime, duration, unlockTime, now] =
+        DepositInfoTuple.map((type, j) => type.parse(infoValues[j]));
+      return {
+        objectId,
+        coinType,
+        depositor: depositor as string,
+        recipient: recipient as string,
+        balance: BigInt(amount),
+        startTime: Number(startTime),
+        duration: Number(duration),
+        unlockTime: Number(unlockTime),
+        chainTime: Number(now),
+        canRecipientWithdraw: bcs.bool().parse(values(canWithdraw)[0]),
+        timeUntilUnlock: Number(bcs.u64().parse(values(remaining)[0])),
+      };
+    });
+  }
+
+  /**
+   * The most `owner` can deposit of `coinType`: the whole balance, or for
+   * SUI the balance less the gas budget a deposit transaction needs.
+   */
+  async maxDepositAmount(owner: string, coinType: string): Promise<bigint> {
+    const { totalBalance } = await this.client.getBalance({ owner, coinType });
+    const balance = BigInt(totalBalance);
+    if (normalizeCoinType(coinType) !== normalizeCoinType(SUI_COIN_TYPE)) {
+      return balance;
+    }
+    // Budgeting a minimal deposit sizes the gas; the amount barely moves it.
+    const probe = this.createDeposit({
+      amount: 1n,
+      recipient: normalizeSuiAddress("0x0"),
+      durationMinutes: 1,
+    });
+    const { ok, error } = await this.dryRun(probe, owner);
+    if (!ok) throw new Error(`Couldn't estimate gas: ${error}`);
+    const budget = BigInt(probe.getData().gasData.budget ?? 0);
+    return balance > budget ? balance - budget : 0n;
+  }
+
+  /** Decimals and symbol for `coinType`, cached per client. */
+  getCoinInfo(coinType: string): Promise<CoinInfo> {
+    const key = normalizeCoinType(coinType);
+    let info = this.coinInfos.get(key);
+    if (!info) {
+      info = this.client
+        .getCoinMetadata({ coinType: key })
+        .then((meta) =>
+          meta
+            ? { coinType: key, decimals: meta.decimals, symbol: meta.symbol }
+            : fallbackCoinInfo(key),
+        );
+      // Don't cache failures; the next call retries.
+      info.catch(() => this.coinInfos.delete(key));
+      this.coinInfos.set(key, info);
+    }
+    return info;
+  }
+
+  /** Returns `null` if the object does not exist or is not a `TimeDeposit`. */
+  async getDeposit(id: string): Promise<TimeDeposit | null> {
+    const res = await this.client.getObject({
+      id,
+      options: { showContent: true },
+    });
+    return parseTimeDeposit(res);
+  }
+
+  /**
+   * Reads many deposits in as few `multiGetObjects` calls as the RPC allows.
+   * IDs that are missing, deleted or not a `TimeDeposit` are left out.
+   */
+  async getDeposits(ids: string[]): Promise<Map<string, TimeDeposit>> {
+    const deposits = new Map<string, TimeDeposit>();
+    for (let i = 0; i < ids.length; i += MULTI_GET_BATCH_SIZE) {
+      const res = await this.client.multiGetObjects({
+        ids: ids.slice(i, i + MULTI_GET_BATCH_SIZE),
+        options: { showContent: true },
+      });
+      for (const object of res) {
+        const deposit = parseTimeDeposit(object);
+        if (deposit) deposits.set(deposit.objectId, deposit);
+      }
+    }
+    return deposits;
+  }
+
+  /**
+   * The digests among `digests` whose transaction is tagged as creating a
+   * vesting schedule (`tagVestingTransaction`).
+   */
+  async vestingTransactions(digests: string[]): Promise<Set<string>> {
+    const tagged = new Set<string>();
+    for (let i = 0; i < digests.length; i += MULTI_GET_BATCH_SIZE) {
+      const res = await this.client.multiGetTransactionBlocks({
+        digests: digests.slice(i, i + MULTI_GET_BATCH_SIZE),
+        options: { showRawInput: true },
+      });
+      for (const { digest, rawTransaction } of res) {
+        if (rawTransaction && isVestingTransaction(rawTransaction)) {
+          tagged.add(digest);
+        }
+      }
+    }
+    return tagged;
+  }
+
+  async queryDepositCreated({
+    coinType = SUI_COIN_TYPE,
+    cursor = null,
+    limit,
+    order,
+  }: QueryEventsParams = {}): Promise<Page<DepositCreated, EventId>> {
+    const res = await this.client.queryEvents({
+      query: { MoveEventType: this.eventType("DepositCreated", coinType) },
+      cursor,
+      limit,
+      order,
+    });
+    return {
+      data: res.data.map(parseDepositCreated),
+      nextCursor: res.nextCursor ?? null,
+      hasNextPage: res.hasNextPage,
+    };
+  }
+
+  async queryDepositWithdrawn({
+    coinType = SUI_COIN_TYPE,
+    cursor = null,
+    limit,
+    order,
+  }: QueryEventsParams = {}): Promise<Page<DepositWithdrawn, EventId>> {
+    const res = await this.client.queryEvents({
+      query: { MoveEventType: this.eventType("DepositWithdrawn", coinType) },
+      cursor,
+      limit,
+      order,
+    });
+    return {
+      data: res.data.map(parseDepositWithdrawn),
+      nextCursor: res.nextCursor ?? null,
+      hasNextPage: res.hasNextPage,
+    };
+  }
+
+  /**
+   * Every event emitted by the `deposit` module, of any struct and coin
+   * type, from every package version: the filter matches where the event
+   * struct is defined, not which version emitted it. Pass the returned
+   * `nextCursor` back in to resume.
+   */
+  async queryDepositEvents({
+    cursor = null,
+    limit,
+    order = "ascending",
+  }: Omit<QueryEventsParams, "coinType"> = {}): Promise<
+    Page<DepositEvent, EventId>
+  > {
+    const res = await this.client.queryEvents({
+      query: {
+        MoveEventModule: {
+          package: this.originalPackageId,
+          module: MODULE_NAME,
+        },
+      },
+      cursor,
+      limit,
+      order,
+    });
+    return {
+      data: res.data
+        .map(parseDepositEvent)
+        .filter((ev): ev is DepositEvent => ev !== null),
+      nextCursor: res.nextCursor ?? null,
+      hasNextPage: res.hasNextPage,
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { U64_MAX, formatUnits, parseAmount } from "./amounts.ts";
+
+const u64 = fc.bigInt({ min: 0n, max: U64_MAX });
+// SUI has 9 decimals; some coins have none, a few have up to 18.
+const decimals = fc.integer({ min: 0, max: 18 });
+
+describe("parseAmount", () => {
+  it("parses decimal strings exactly", () => {
+    expect(parseAmount("1.5", 9)).toEqual({ ok: true, amount: 1_500_000_000n });
+    expect(parseAmount(" 0.1 ", 9)).toEqual({ ok: true, amount: 100_000_000n });
+    expect(parseAmount(".5", 2)).toEqual({ ok: true, amount: 50n });
+    expect(parseAmount("7.", 0)).toEqual({ ok: true, amount: 7n });
+    // Floats turn this into 0.30000000000000004.
+    expect(parseAmount("0.3", 18)).toEqual({
+      ok: true,
+      amount: 300_000_000_000_000_000n,
+    });
+  });
+
+  it("rejects malformed input, excess precision and overflow", () => {
+    const malformed = ["", ".", "-1", "1e9", "1,000", "0x10", "1.2.3", "abc"];
+    for (const input of malformed) {
+      expect(parseAmount(input, 9).ok).toBe(false);
+    }
+    expect(parseAmount("1.0000000001", 9)).toEqual({
+      ok: false,
+      error: "This coin has at most 9 decimal places.",
+    });
+    expect(parseAmount("1.5", 0).ok).toBe(false);
+    expect(parseAmount(formatUnits(U64_MAX, 9), 9)).toEqual({
+      ok: true,
+      amount: U64_MAX,
+    });
+    expect(parseAmount(formatUnits(U64_MAX + 1n, 9), 9).ok).toBe(false);
+  });
+
+  it("round-trips every u64 through formatUnits", () => {
+    fc.assert(
+      fc.property(u64, decimals, (amount, d) => {
+        expect(parseAmount(formatUnits(amount, d), d)).toEqual({
+          ok: true,
+          amount,
+        });
+      }),
+    );
+  });
+
+  it("round-trips around the u64 boundary", () => {
+    const nearMax = fc.bigInt({ min: U64_MAX - 1_000_000n, max: U64_MAX });
+    fc.assert(
+      fc.property(nearMax, decimals, (amount, d) => {
+        expect(parseAmount(formatUnits(amount, d), d)).toEqual({
+          ok: true,
+          amount,
+        });
+        expect(parseAmount(formatUnits(amount + U64_MAX, d), d).ok).toBe(
+          false,
+        );
+      }),
+    );
+  });
+
+  it("accepts exactly the strings formatUnits could have produced", () => {
+    const digits = fc.stringMatching(/^\d{1,12}(\.\d{0,12})?$/);
+    // Few enough places that 12 whole digits stay inside u64.
+    const places = fc.integer({ min: 0, max: 6 });
+    fc.assert(
+      fc.property(digits, places, (input, d) => {
+        const parsed = parseAmount(input, d);
+        const fraction = input.split(".")[1] ?? "";
+        expect(parsed.ok).toBe(fraction.length <= d);
+        if (parsed.ok) {
+          // Normalizes away leading and trailing zeros only.
+          expect(Number(formatUnits(parsed.amount, d))).toBe(Number(input));
+        }
+      }),
+    );
+  });
+});
+
+describe("formatUnits", () => {
+  it("renders exactly, without trailing zeros", () => {
+    expect(formatUnits(1_500_000_000n, 9)).toBe("1.5");
+    expect(formatUnits(1n, 9)).toBe("0.000000001");
+    expect(formatUnits(0n, 9)).toBe("0");
+    expect(formatUnits(42n, 0)).toBe("42");
+    expect(formatUnits(-2_500_000n, 6)).toBe("-2.5");
+    expect(formatUnits(U64_MAX, 9)).toBe("18446744073.709551615");
+  });
+});
@@ -0,0 +1,56 @@
+import type { CoinInfo } from "./coins.ts";
+
+/** Largest value of a Move `u64`, which bounds every coin amount. */
+export const U64_MAX = 2n ** 64n - 1n;
+
+/** Base units parsed from a decimal string, or why they couldn't be. */
+export type ParsedAmount =
+  | { ok: true; amount: bigint }
+  | { ok: false; error: string };
+
+/**
+ * Parses a decimal string such as `"1.5"` into base units of a coin with
+ * `decimals` places, exactly. Rejects signs, exponents, separators, more
+ * fractional digits than the coin has and values past `u64`.
+ */
+export function parseAmount(input: string, decimals: number): ParsedAmount {
+  const text = input.trim();
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!text || !match || (match[1] === "" && !match[2])) {
+    return { ok: false, error: "Enter the amount as a number, like 1.5." };
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    return {
+      ok: false,
+      error:
+        decimals === 0
+          ? "This coin has no decimal places; enter a whole number."
+          : `This coin has at most ${decimals} decimal places.`,
+    };
+  }
+  const amount = BigInt((whole || "0") + fraction.padEnd(decimals, "0"));
+  if (amount > U64_MAX) {
+    return { ok: false, error: "That amount is too large for a coin." };
+  }
+  return { ok: true, amount };
+}
+
+/**
+ * Exact decimal string for `amount` base units, without trailing zeros.
+ * The inverse of `parseAmount` for non-negative amounts.
+ */
+export function formatUnits(amount: bigint, decimals: number): string {
+  const sign = amount < 0n ? "-" : "";
+  const digits = (amount < 0n ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/** `formatUnits` plus the coin's symbol, e.g. `"1.5 SUI"`. */
+export function formatCoinAmount(amount: bigint, coin: CoinInfo): string {
+  return `${formatUnits(amount, coin.decimals)} ${coin.symbol}`;
+}
@@ -0,0 +1,25 @@
+import { normalizeStructTag, parseStructTag } from "@mysten/sui/utils";
+
+/** Display metadata for a coin type, from its `CoinMetadata` object. */
+export interface CoinInfo {
+  coinType: string;
+  decimals: number;
+  symbol: string;
+}
+
+/** Canonical form of a coin type, safe to compare and use as a map key. */
+export function normalizeCoinType(coinType: string): string {
+  return normalizeStructTag(coinType);
+}
+
+/**
+ * Used when a coin has no `CoinMetadata`: amounts are shown in raw units and
+ * the struct name stands in for the symbol.
+ */
+export function fallbackCoinInfo(coinType: string): CoinInfo {
+  return {
+    coinType: normalizeCoinType(coinType),
+    decimals: 0,
+    symbol: parseStructTag(coinType).name,
+  };
+}
@@ -0,0 +1,28 @@
+// ================================
+// On-chain constants mirrored from `sources/deposit.move`
+// ================================
+
+export const MODULE_NAME = "deposit";
+export const CLOCK_OBJECT_ID = "0x6";
+export const SUI_COIN_TYPE = "0x2::sui::SUI";
+
+/** Testnet deployment of the `time_locked_deposit` package. */
+export const DEFAULT_PACKAGE_ID =
+  "0x3267853684c621750d182868a26fbe51adc96f7e169cb435da7a57204ac4b10a";
+
+export const MS_PER_MINUTE = 60_000;
+export const MAX_DURATION_MINUTES = 525_600; // 1 year
+
+/**
+ * Deposits per batch transaction. Each costs one Move call and two pure
+ * inputs, which keeps a full batch well inside the PTB command (1024),
+ * input (2048) and size (128 KiB) limits.
+ */
+export const MAX_DEPOSITS_PER_TRANSACTION = 200;
+
+/** Value of `DepositWithdrawn.withdrawn_by`. */
+export const WithdrawnBy = {
+  Depositor: 0,
+  Recipient: 1,
+} as const;
+export type WithdrawnBy = (typeof WithdrawnBy)[keyof typeof WithdrawnBy];
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  AbortCode,
+  TimeDepositError,
+  abortMessage,
+  decodeAbort,
+  describeError,
+  type AbortCodeName,
+} from "./errors.ts";
+
+const ADDRESS = "3267e3f4a1c2b3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c";
+
+function moveAbort(code: number, module = "deposit", fn: string | null = "withdraw_by_recipient") {
+  const name = fn === null ? "None" : `Some("${fn}")`;
+  return `MoveAbort(MoveLocation { module: ModuleId { address: ${ADDRESS}, name: Identifier("${module}") }, function: 2, instruction: 10, function_name: ${name} }, ${code}) in command 0`;
+}
+
+describe("decodeAbort", () => {
+  it("decodes every abort code of the deposit module", () => {
+    for (const [name, code] of Object.entries(AbortCode)) {
+      const abort = decodeAbort(moveAbort(code));
+      expect(abort).toBeInstanceOf(TimeDepositError);
+      expect(abort).toMatchObject({
+        code,
+        abortName: name,
+        functionName: "withdraw_by_recipient",
+        message: abortMessage(name as AbortCodeName),
+      });
+    }
+  });
+
+  it("reads aborts out of thrown errors", () => {
+    const error = new Error(
+      `Dry run failed, could not automatically determine a budget: ${moveAbort(1)}`,
+    );
+    const abort = decodeAbort(error);
+    expect(abort?.abortName).toBe("ETooEarly");
+    expect(abort?.cause).toBe(error);
+    expect(decodeAbort(abort)).toBe(abort);
+  });
+
+  it("keeps aborts without a function name", () => {
+    expect(decodeAbort(moveAbort(4, "deposit", null))).toMatchObject({
+      abortName: "EUnauthorized",
+      functionName: null,
+    });
+  });
+
+  it("ignores everything else", () => {
+    for (const error of [
+      moveAbort(2, "balance"),
+      moveAbort(6),
+      "InsufficientCoinBalance in command 0",
+      new Error("fetch failed"),
+      null,
+      undefined,
+      { code: 1 },
+    ]) {
+      expect(decodeAbort(error)).toBeNull();
+    }
+  });
+});
+
+describe("describeError", () => {
+  it("prefers the abort's message, then the error's", () => {
+    expect(describeError(moveAbort(5))).toBe(abortMessage("EInvalidRecipient"));
+    expect(describeError(new Error("fetch failed"))).toBe("fetch failed");
+    expect(describeError("plain")).toBe("plain");
+  });
+});
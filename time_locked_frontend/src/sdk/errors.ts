@@ -0,0 +1,75 @@
+import { MAX_DURATION_MINUTES, MODULE_NAME } from "./constants.ts";
+
+/** Abort codes of the `deposit` module, by constant name. */
+export const AbortCode = {
+  EInvalidDuration: 0,
+  ETooEarly: 1,
+  EInvalidAmount: 2,
+  EDurationTooLong: 3,
+  EUnauthorized: 4,
+  EInvalidRecipient: 5,
+} as const;
+export type AbortCodeName = keyof typeof AbortCode;
+
+const ABORT_MESSAGES: Record<AbortCodeName, string> = {
+  EInvalidDuration: "The lock duration must be at least one minute.",
+  ETooEarly:
+    "This deposit is still locked. The recipient can claim it once the unlock time has passed.",
+  EInvalidAmount: "The deposit amount must be greater than zero.",
+  EDurationTooLong: `The lock duration can't exceed ${MAX_DURATION_MINUTES.toLocaleString("en-US")} minutes (one year).`,
+  EUnauthorized:
+    "This account can't perform that action. Only the depositor can cancel a deposit and only the recipient can claim it.",
+  EInvalidRecipient:
+    "The recipient must be a different address from the depositor.",
+};
+
+/** Readable message for a `deposit` module abort. */
+export function abortMessage(name: AbortCodeName): string {
+  return ABORT_MESSAGES[name];
+}
+
+/** A Move abort raised by the `deposit` module, with a readable message. */
+export class TimeDepositError extends Error {
+  readonly code: number;
+  readonly abortName: AbortCodeName;
+  readonly functionName: string | null;
+
+  constructor(code: number, functionName: string | null, cause?: unknown) {
+    const abortName = (Object.keys(AbortCode) as AbortCodeName[]).find(
+      (name) => AbortCode[name] === code,
+    )!;
+    super(ABORT_MESSAGES[abortName], { cause });
+    this.name = "TimeDepositError";
+    this.code = code;
+    this.abortName = abortName;
+    this.functionName = functionName;
+  }
+}
+
+// e.g. MoveAbort(MoveLocation { module: ModuleId { address: 3267…, name:
+// Identifier("deposit") }, function: 2, instruction: 10, function_name:
+// Some("withdraw_by_recipient") }, 1) in command 0
+const MOVE_ABORT_RE =
+  /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: \w+, name: Identifier\("(\w+)"\) \}, function: \d+, instruction: \d+, function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)/;
+
+/**
+ * Extracts a `deposit` module abort from an execution error string or a
+ * thrown error. Returns `null` for anything else (including aborts from
+ * other modules, e.g. insufficient coin balance).
+ */
+export function decodeAbort(error: unknown): TimeDepositError | null {
+  if (error instanceof TimeDepositError) return error;
+  const text = error instanceof Error ? error.message : String(error);
+  const match = MOVE_ABORT_RE.exec(text);
+  if (!match || match[1] !== MODULE_NAME) return null;
+  const code = Number(match[3]);
+  if (!Object.values(AbortCode).includes(code as never)) return null;
+  return new TimeDepositError(code, match[2] ?? null, error);
+}
+
+/** User-facing message for any error from building or executing a call. */
+export function describeError(error: unknown): string {
+  const abort = decodeAbort(error);
+  if (abort) return abort.message;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,14 @@
+export * from "./constants.ts";
+export * from "./types.ts";
+export * from "./coins.ts";
+export * from "./amounts.ts";
+export * from "./errors.ts";
+export * from "./parsers.ts";
+export * from "./TimeDepositClient.ts";
+export * from "./sync.ts";
+export * from "./validation.ts";
+export * from "./vesting.ts";
+export * from "./IndexerClient.ts";
+export * from "./names.ts";
+export * from "./packages.ts";
+export * from "./SponsorClient.ts";
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { NameResolver, isSuiNsName } from "./names.ts";
+
+const alice = normalizeSuiAddress("0xa11ce");
+
+function fakeClient() {
+  return {
+    resolveNameServiceAddress: vi.fn(async ({ name }: { name: string }) =>
+      name === "alice.sui" ? "0xa11ce" : null,
+    ),
+    resolveNameServiceNames: vi.fn(async () => ({
+      data: ["alice.sui"],
+      hasNextPage: false,
+      nextCursor: null,
+    })),
+  };
+}
+
+describe("isSuiNsName", () => {
+  it("accepts dot and at forms", () => {
+    for (const name of ["alice.sui", "pay.alice.sui", "@alice", "pay@alice"]) {
+      expect(isSuiNsName(name)).toBe(true);
+    }
+  });
+
+  it("rejects addresses and other domains", () => {
+    for (const value of ["0xa11ce", "alice.eth", "alice", ".sui", "a b.sui"]) {
+      expect(isSuiNsName(value)).toBe(false);
+    }
+  });
+});
+
+describe("NameResolver", () => {
+  it("normalizes addresses and resolves names", async () => {
+    const resolver = new NameResolver(fakeClient() as unknown as SuiClient);
+    expect(await resolver.addressOf(" 0xa11ce ")).toBe(alice);
+    expect(await resolver.addressOf("Alice.sui")).toBe(alice);
+    expect(await resolver.addressOf("bob.sui")).toBeNull();
+    expect(await resolver.addressOf("not an address")).toBeNull();
+  });
+
+  it("caches lookups, including misses", async () => {
+    const client = fakeClient();
+    const resolver = new NameResolver(client as unknown as SuiClient);
+    await resolver.resolve("bob.sui");
+    await resolver.resolve("bob.sui");
+    await resolver.lookup("0xa11ce");
+    expect(await resolver.lookup(alice)).toBe("alice.sui");
+    expect(client.resolveNameServiceAddress).toHaveBeenCalledTimes(1);
+    expect(client.resolveNameServiceNames).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes failed lookups on and retries them", async () => {
+    const client = fakeClient();
+    client.resolveNameServiceAddress.mockRejectedValueOnce(
+      new Error("fetch failed"),
+    );
+    const resolver = new NameResolver(client as unknown as SuiClient);
+    await expect(resolver.addressOf("alice.sui")).rejects.toThrow(
+      "fetch failed",
+    );
+    expect(await resolver.resolve("alice.sui")).toBe(alice);
+    expect(client.resolveNameServiceAddress).toHaveBeenCalledTimes(2);
+  });
+
+  it("treats names of addresses it can't look up as missing", async () => {
+    const client = fakeClient();
+    client.resolveNameServiceNames.mockRejectedValueOnce(
+      new Error("Method not found"),
+    );
+    const resolver = new NameResolver(client as unknown as SuiClient);
+    expect(await resolver.lookup(alice)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { isSuiAddress } from "./validation.ts";
+
+/** `name.sui` and `sub.name.sui`, or the `@name` and `sub@name` forms. */
+const NAME_PATTERN =
+  /^(?:(?:[a-z0-9-]+\.)*[a-z0-9-]+\.sui|(?:[a-z0-9-]+\.)*[a-z0-9-]*@[a-z0-9-]+)$/i;
+
+export function isSuiNsName(value: string): boolean {
+  return NAME_PATTERN.test(value);
+}
+
+/**
+ * Resolves SuiNS names in both directions. Answers, including "no name",
+ * are cached for the lifetime of the resolver; failed calls are not.
+ */
+export class NameResolver {
+  readonly client: SuiClient;
+  private addresses = new Map<string, Promise<string | null>>();
+  private names = new Map<string, Promise<string | null>>();
+
+  constructor(client: SuiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Address a name points to, or `null` if it is not registered. Rejects
+   * when the fullnode can't be asked, so callers can offer a retry.
+   */
+  resolve(name: string): Promise<string | null> {
+    const key = name.toLowerCase();
+    let address = this.addresses.get(key);
+    if (!address) {
+      address = this.client
+        .resolveNameServiceAddress({ name: key })
+        .then((a) => (a ? normalizeSuiAddress(a) : null));
+      // Don't cache failures; the next call retries.
+      address.catch(() => this.addresses.delete(key));
+      this.addresses.set(key, address);
+    }
+    return address;
+  }
+
+  /** Primary name of an address in `name.sui` form, or `null`. */
+  lookup(address: string): Promise<string | null> {
+    const key = normalizeSuiAddress(address);
+    let name = this.names.get(key);
+    if (!name) {
+      name = this.client
+        .resolveNameServiceNames({ address: key, format: "dot", limit: 1 })
+        .then((res) => res.data[0] ?? null)
+        // Networks without SuiNS (e.g. localnet) reject the call.
+        .catch(() => null);
+      this.names.set(key, name);
+    }
+    return name;
+  }
+
+  /**
+   * Normalized address for an address or SuiNS name typed by a user;
+   * `null` if it is neither, or the name is not registered. Rejects like
+   * `resolve` when a name can't be looked up.
+   */
+  async addressOf(input: string): Promise<string | null> {
+    const value = input.trim();
+    if (isSuiAddress(value)) return normalizeSuiAddress(value);
+    if (isSuiNsName(value)) return this.resolve(value);
+    return null;
+  }
+}
@@ -0,0 +1,14 @@
+import { normalizeSuiObjectId } from "@mysten/sui/utils";
+
+/**
+ * Reads a package ID setting: a single ID or, once the package has been
+ * upgraded, every version separated by commas, original first and latest
+ * last. Blank yields `[]`.
+ */
+export function parsePackageVersions(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => normalizeSuiObjectId(id));
+}
@@ -0,0 +1,164 @@
+import type {
+  SuiEvent,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import { normalizeStructTag, parseStructTag } from "@mysten/sui/utils";
+import { MODULE_NAME, WithdrawnBy } from "./constants.ts";
+import type {
+  DepositCreated,
+  DepositEvent,
+  DepositWithdrawn,
+  EventMeta,
+  TimeDeposit,
+} from "./types.ts";
+
+type JsonFields = Record<string, unknown>;
+
+/**
+ * Returns the single type argument of a `pkg::deposit::Name<T>` struct tag,
+ * or `null` if `type` is not that struct.
+ */
+export function parseCoinType(type: string, structName: string): string | null {
+  let tag;
+  try {
+    tag = parseStructTag(type);
+  } catch {
+    return null;
+  }
+  if (tag.module !== MODULE_NAME || tag.name !== structName) return null;
+  const [arg] = tag.typeParams;
+  if (arg === undefined) return null;
+  return typeof arg === "string" ? arg : normalizeStructTag(arg);
+}
+
+function str(fields: JsonFields, key: string): string {
+  const value = fields[key];
+  if (typeof value !== "string") {
+    throw new Error(`Expected string field "${key}", got ${typeof value}`);
+  }
+  return value;
+}
+
+/** u64 values arrive as decimal strings (JSON-RPC) or numbers (small values). */
+function u64(fields: JsonFields, key: string): bigint {
+  const value = fields[key];
+  if (typeof value === "string" || typeof value === "number") {
+    return BigInt(value);
+  }
+  throw new Error(`Expected u64 field "${key}", got ${typeof value}`);
+}
+
+function ms(fields: JsonFields, key: string): number {
+  return Number(u64(fields, key));
+}
+
+function eventMeta(event: SuiEvent, structName: string): EventMeta {
+  const coinType = parseCoinType(event.type, structName);
+  if (!coinType) {
+    throw new Error(`Event ${event.type} is not a ${structName} event`);
+  }
+  return {
+    coinType,
+    txDigest: event.id.txDigest,
+    eventSeq: event.id.eventSeq,
+    timestampMs: event.timestampMs ? Number(event.timestampMs) : null,
+  };
+}
+
+export function parseDepositCreated(event: SuiEvent): DepositCreated {
+  const fields = event.parsedJson as JsonFields;
+  return {
+    ...eventMeta(event, "DepositCreated"),
+    depositId: str(fields, "deposit_id"),
+    depositor: str(fields, "depositor"),
+    recipient: str(fields, "recipient"),
+    amount: u64(fields, "amount"),
+    startTime: ms(fields, "start_time"),
+    duration: ms(fields, "duration"),
+    unlockTime: ms(fields, "unlock_time"),
+  };
+}
+
+export function parseDepositWithdrawn(event: SuiEvent): DepositWithdrawn {
+  const fields = event.parsedJson as JsonFields;
+  const withdrawnBy = Number(u64(fields, "withdrawn_by"));
+  if (
+    withdrawnBy !== WithdrawnBy.Depositor &&
+    withdrawnBy !== WithdrawnBy.Recipient
+  ) {
+    throw new Error(`Unknown withdrawn_by value ${withdrawnBy}`);
+  }
+  return {
+    ...eventMeta(event, "DepositWithdrawn"),
+    depositId: str(fields, "deposit_id"),
+    withdrawer: str(fields, "withdrawer"),
+    withdrawTime: ms(fields, "withdraw_time"),
+    amountWithdrawn: u64(fields, "amount_withdrawn"),
+    withdrawnBy,
+  };
+}
+
+/**
+ * Parses any event of the `deposit` module.
+ * Returns `null` for event structs this SDK does not know about.
+ */
+export function parseDepositEvent(event: SuiEvent): DepositEvent | null {
+  if (parseCoinType(event.type, "DepositCreated")) {
+    return { kind: "DepositCreated", ...parseDepositCreated(event) };
+  }
+  if (parseCoinType(event.type, "DepositWithdrawn")) {
+    return { kind: "DepositWithdrawn", ...parseDepositWithdrawn(event) };
+  }
+  return null;
+}
+
+/** Total withdrawn per coin type across the `DepositWithdrawn` events given. */
+export function sumWithdrawals(events: SuiEvent[]): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const event of events) {
+    const parsed = parseDepositEvent(event);
+    if (parsed?.kind !== "DepositWithdrawn") continue;
+    totals.set(
+      parsed.coinType,
+      (totals.get(parsed.coinType) ?? 0n) + parsed.amountWithdrawn,
+    );
+  }
+  return totals;
+}
+
+/**
+ * Parses a `getObject` response requested with `showContent: true`.
+ * Returns `null` if the object is missing, deleted or not a `TimeDeposit`.
+ */
+export function parseTimeDeposit(res: SuiObjectResponse): TimeDeposit | null {
+  const content = res.data?.content;
+  if (!content || content.dataType !== "moveObject") return null;
+  const coinType = parseCoinType(content.type, "TimeDeposit");
+  if (!coinType) return null;
+
+  // `Balance<T>` is rendered by JSON-RPC as its bare u64 value.
+  const fields = content.fields as JsonFields;
+  return {
+    objectId: res.data!.objectId,
+    coinType,
+    depositor: str(fields, "depositor"),
+    recipient: str(fields, "recipient"),
+    balance: u64(fields, "balance"),
+    startTime: ms(fields, "start_time"),
+    duration: ms(fields, "duration"),
+    unlockTime: ms(fields, "unlock_time"),
+  };
+}
+
+/**
+ * IDs of the `TimeDeposit` objects a transaction created, in creation order.
+ * Needs the response fetched with `showObjectChanges: true`.
+ */
+export function createdDepositIds(res: SuiTransactionBlockResponse): string[] {
+  return (res.objectChanges ?? []).flatMap((change) =>
+    change.type === "created" && parseCoinType(change.objectType, "TimeDeposit")
+      ? [change.objectId]
+      : [],
+  );
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from "vitest";
+import type { EventId, SuiClient, SuiEvent } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { TimeDepositClient } from "./TimeDepositClient.ts";
+import { SUI_COIN_TYPE, WithdrawnBy } from "./constants.ts";
+import { parseDepositEvent } from "./parsers.ts";
+import { DepositIndex, MemoryEventStore, syncDepositEvents } from "./sync.ts";
+import type { DepositEvent } from "./types.ts";
+
+const PACKAGE = `0x${"1".padStart(64, "0")}`;
+const alice = `0x${"a11ce".padStart(64, "0")}`;
+const bob = `0x${"b0b".padStart(64, "0")}`;
+const carol = `0x${"ca201".padStart(64, "0")}`;
+
+let nextSeq = 0;
+function event(struct: string, parsedJson: Record<string, unknown>): SuiEvent {
+  const seq = ++nextSeq;
+  return {
+    id: { txDigest: `tx${seq}`, eventSeq: "0" },
+    type: `${PACKAGE}::deposit::${struct}<0x2::sui::SUI>`,
+    parsedJson,
+    timestampMs: String(seq),
+  } as SuiEvent;
+}
+
+function created(
+  id: string,
+  depositor: string,
+  recipient: string,
+  start: number,
+) {
+  return event("DepositCreated", {
+    deposit_id: id,
+    depositor,
+    recipient,
+    amount: "100",
+    start_time: String(start),
+    duration: "60000",
+    unlock_time: String(start + 60_000),
+  });
+}
+
+function withdrawn(id: string, withdrawer: string, by: WithdrawnBy) {
+  return event("DepositWithdrawn", {
+    deposit_id: id,
+    withdrawer,
+    withdraw_time: "120000",
+    amount_withdrawn: "100",
+    withdrawn_by: String(by),
+  });
+}
+
+/**
+ * A fullnode holding `events`, answering `queryEvents` a page at a time.
+ * Like the RPC, a page past the end carries no cursor.
+ */
+function fakeChain(events: SuiEvent[]) {
+  const queryEvents = vi.fn(
+    async ({
+      cursor,
+      limit = 50,
+    }: {
+      cursor?: EventId | null;
+      limit?: number;
+    }) => {
+      const start = cursor
+        ? events.findIndex((e) => e.id.txDigest === cursor.txDigest) + 1
+        : 0;
+      const data = events.slice(start, start + limit);
+      return {
+        data,
+        nextCursor: data.at(-1)?.id ?? null,
+        hasNextPage: start + limit < events.length,
+      };
+    },
+  );
+  const client = new TimeDepositClient({
+    client: { queryEvents } as unknown as SuiClient,
+    packageId: PACKAGE,
+  });
+  return { events, queryEvents, client };
+}
+
+const parsed = (events: SuiEvent[]) =>
+  events.map((e) => parseDepositEvent(e)!);
+
+describe("syncDepositEvents", () => {
+  it("stores every page along with its cursor", async () => {
+    const events = Array.from({ length: 120 }, (_, i) =>
+      created(`0xd${i}`, alice, bob, i),
+    );
+    const chain = fakeChain(events);
+    const store = new MemoryEventStore();
+    const append = vi.spyOn(store, "append");
+
+    const state = await syncDepositEvents(chain.client, store);
+    expect(state).toEqual({ events: parsed(events), cursor: events[119].id });
+    expect(await store.load()).toEqual(state);
+    expect(
+      append.mock.calls.map(([page, cursor]) => [page.length, cursor]),
+    ).toEqual([
+      [50, events[49].id],
+      [50, events[99].id],
+      [20, events[119].id],
+    ]);
+  });
+
+  it("resumes after the stored cursor", async () => {
+    const events = [
+      created("0xd1", alice, bob, 1),
+      created("0xd2", alice, bob, 2),
+    ];
+    const chain = fakeChain(events);
+    const store = new MemoryEventStore();
+    await syncDepositEvents(chain.client, store);
+
+    events.push(withdrawn("0xd1", bob, WithdrawnBy.Recipient));
+    chain.queryEvents.mockClear();
+    const state = await syncDepositEvents(chain.client, store);
+    expect(chain.queryEvents).toHaveBeenCalledOnce();
+    expect(chain.queryEvents.mock.calls[0][0].cursor).toEqual(events[1].id);
+    expect(state).toEqual({ events: parsed(events), cursor: events[2].id });
+  });
+
+  it("keeps the cursor when nothing new arrived", async () => {
+    const events = [created("0xd1", alice, bob, 1)];
+    const chain = fakeChain(events);
+    const store = new MemoryEventStore();
+    await syncDepositEvents(chain.client, store);
+
+    const append = vi.spyOn(store, "append");
+    const state = await syncDepositEvents(chain.client, store);
+    expect(append).not.toHaveBeenCalled();
+    expect(state).toEqual({ events: parsed(events), cursor: events[0].id });
+  });
+
+  it("picks up where an interrupted sync stopped", async () => {
+    const events = Array.from({ length: 75 }, (_, i) =>
+      created(`0xd${i}`, alice, bob, i),
+    );
+    const chain = fakeChain(events);
+    const store = new MemoryEventStore();
+    chain.queryEvents.mockImplementationOnce(
+      chain.queryEvents.getMockImplementation()!,
+    );
+    chain.queryEvents.mockRejectedValueOnce(new Error("fetch failed"));
+
+    await expect(syncDepositEvents(chain.client, store)).rejects.toThrow(
+      "fetch failed",
+    );
+    expect((await store.load()).cursor).toEqual(events[49].id);
+
+    const state = await syncDepositEvents(chain.client, store);
+    expect(chain.queryEvents.mock.calls.at(-1)![0].cursor).toEqual(
+      events[49].id,
+    );
+    expect(state.events).toEqual(parsed(events));
+  });
+
+  it("skips events of structs it doesn't know", async () => {
+    const events = [
+      created("0xd1", alice, bob, 1),
+      event("DepositMigrated", { deposit_id: "0xd1" }),
+    ];
+    const state = await syncDepositEvents(
+      fakeChain(events).client,
+      new MemoryEventStore(),
+    );
+    expect(state.events).toEqual(parsed(events.slice(0, 1)));
+    expect(state.cursor).toEqual(events[1].id);
+  });
+});
+
+describe("DepositIndex", () => {
+  const history: DepositEvent[] = parsed([
+    created("0xd1", alice, bob, 1),
+    created("0xd2", alice, carol, 2),
+    created("0xd3", carol, bob, 3),
+    withdrawn("0xd2", alice, WithdrawnBy.Depositor),
+  ]);
+
+  it("derives each deposit's status from its events", () => {
+    const index = new DepositIndex(history);
+    expect(index.entry("0xd1")).toMatchObject({
+      withdrawn: null,
+      status: "active",
+    });
+    expect(index.entry("0xd2")?.status).toBe("cancelled");
+    expect(index.entry("0xd9")).toBeNull();
+
+    index.add(parsed([withdrawn("0xd1", bob, WithdrawnBy.Recipient)]));
+    expect(index.entry("0xd1")).toMatchObject({
+      withdrawn: { withdrawer: bob, amountWithdrawn: 100n },
+      status: "claimed",
+    });
+  });
+
+  it("lists active deposits on either side", () => {
+    const index = new DepositIndex(history);
+    const ids = (address: string) =>
+      index.activeDepositsFor(address).map((d) => d.objectId);
+    expect(ids(alice)).toEqual(["0xd1"]);
+    expect(ids(bob)).toEqual(["0xd1", "0xd3"]);
+    expect(ids(carol)).toEqual(["0xd3"]);
+    expect(index.activeDepositsFor(alice)[0]).toEqual({
+      objectId: "0xd1",
+      coinType: normalizeStructTag(SUI_COIN_TYPE),
+      depositor: alice,
+      recipient: bob,
+      balance: 100n,
+      startTime: 1,
+      duration: 60_000,
+      unlockTime: 60_001,
+    });
+  });
+
+  it("keeps withdrawn deposits in the history, newest first", () => {
+    const index = new DepositIndex(history);
+    expect(
+      index.historyFor(carol).map((e) => [e.created.depositId, e.status]),
+    ).toEqual([
+      ["0xd3", "active"],
+      ["0xd2", "cancelled"],
+    ]);
+  });
+});
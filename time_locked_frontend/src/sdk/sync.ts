@@ -0,0 +1,140 @@
+import type { EventId } from "@mysten/sui/client";
+import { WithdrawnBy } from "./constants.ts";
+import type { TimeDepositClient } from "./TimeDepositClient.ts";
+import type {
+  DepositCreated,
+  DepositEvent,
+  DepositWithdrawn,
+  TimeDeposit,
+} from "./types.ts";
+
+/** Page size used by `syncDepositEvents`; the fullnode caps it at 50. */
+const SYNC_PAGE_SIZE = 50;
+
+export interface SyncState {
+  events: DepositEvent[];
+  cursor: EventId | null;
+}
+
+/**
+ * Persistence for indexed `deposit` module events. `append` must store the
+ * events and the cursor together so an interrupted sync resumes cleanly.
+ */
+export interface DepositEventStore {
+  load(): Promise<SyncState>;
+  append(events: DepositEvent[], cursor: EventId | null): Promise<void>;
+}
+
+/** Non-persistent store, for scripts and tests. */
+export class MemoryEventStore implements DepositEventStore {
+  private state: SyncState = { events: [], cursor: null };
+
+  async load(): Promise<SyncState> {
+    return { events: [...this.state.events], cursor: this.state.cursor };
+  }
+
+  async append(events: DepositEvent[], cursor: EventId | null) {
+    this.state = { events: [...this.state.events, ...events], cursor };
+  }
+}
+
+/**
+ * Pages through every module event after the stored cursor, appending each
+ * page to `store` as it arrives. Returns the full indexed state.
+ */
+export async function syncDepositEvents(
+  client: TimeDepositClient,
+  store: DepositEventStore,
+): Promise<SyncState> {
+  let { events, cursor } = await store.load();
+  for (;;) {
+    const page = await client.queryDepositEvents({
+      cursor,
+      limit: SYNC_PAGE_SIZE,
+    });
+    // An empty page has no cursor; keep the last one we had.
+    const nextCursor = page.nextCursor ?? cursor;
+    if (page.data.length > 0 || nextCursor !== cursor) {
+      await store.append(page.data, nextCursor);
+      events = [...events, ...page.data];
+      cursor = nextCursor;
+    }
+    if (!page.hasNextPage) return { events, cursor };
+  }
+}
+
+/** `TimeDeposit` fields never change after creation, so the event describes it. */
+export function depositFromEvent(ev: DepositCreated): TimeDeposit {
+  return {
+    objectId: ev.depositId,
+    coinType: ev.coinType,
+    depositor: ev.depositor,
+    recipient: ev.recipient,
+    balance: ev.amount,
+    startTime: ev.startTime,
+    duration: ev.duration,
+    unlockTime: ev.unlockTime,
+  };
+}
+
+/** Where a deposit is in its lifecycle, derived from its events. */
+export type DepositLifecycle = "active" | "cancelled" | "claimed";
+
+export interface DepositHistoryEntry {
+  created: DepositCreated;
+  withdrawn: DepositWithdrawn | null;
+  status: DepositLifecycle;
+}
+
+/** Joins created and withdrawn events by `deposit_id`. */
+export class DepositIndex {
+  readonly created = new Map<string, DepositCreated>();
+  readonly withdrawn = new Map<string, DepositWithdrawn>();
+
+  constructor(events: DepositEvent[] = []) {
+    this.add(events);
+  }
+
+  add(events: DepositEvent[]) {
+    for (const ev of events) {
+      if (ev.kind === "DepositCreated") this.created.set(ev.depositId, ev);
+      else this.withdrawn.set(ev.depositId, ev);
+    }
+  }
+
+  /** Deposits not yet withdrawn where `address` is depositor or recipient. */
+  activeDepositsFor(address: string): TimeDeposit[] {
+    const deposits: TimeDeposit[] = [];
+    for (const ev of this.created.values()) {
+      if (this.withdrawn.has(ev.depositId)) continue;
+      if (ev.depositor !== address && ev.recipient !== address) continue;
+      deposits.push(depositFromEvent(ev));
+    }
+    return deposits;
+  }
+
+  /** Created and withdrawn events of one deposit, or `null` if unknown. */
+  entry(depositId: string): DepositHistoryEntry | null {
+    const created = this.created.get(depositId);
+    if (!created) return null;
+    const withdrawn = this.withdrawn.get(depositId) ?? null;
+    const status: DepositLifecycle = !withdrawn
+      ? "active"
+      : withdrawn.withdrawnBy === WithdrawnBy.Depositor
+        ? "cancelled"
+        : "claimed";
+    return { created, withdrawn, status };
+  }
+
+  /** Every deposit involving `address`, newest first. */
+  historyFor(address: string): DepositHistoryEntry[] {
+    const entries: DepositHistoryEntry[] = [];
+    for (const created of this.created.values()) {
+      if (created.depositor !== address && created.recipient !== address) {
+        continue;
+      }
+      entries.push(this.entry(created.depositId)!);
+    }
+    return entries.sort((a, b) => b.created.startTime - a.created.startTime);
+  }
+}
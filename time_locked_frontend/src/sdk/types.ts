@@ -0,0 +1,67 @@
+import type { WithdrawnBy } from "./constants.ts";
+
+/** A live `TimeDeposit<CoinType>` shared object. */
+export interface TimeDeposit {
+  objectId: string;
+  coinType: string;
+  depositor: string;
+  recipient: string;
+  balance: bigint;
+  /** Creation timestamp (ms). */
+  startTime: number;
+  /** Lock duration (ms). */
+  duration: number;
+  /** Absolute unlock timestamp (ms). */
+  unlockTime: number;
+}
+
+/** Lock state as evaluated on chain against the `0x6` clock. */
+export interface ChainLockState {
+  /** Clock timestamp (ms) the state was evaluated at. */
+  chainTime: number;
+  canRecipientWithdraw: boolean;
+  /** Remaining lock time (ms); 0 once unlocked. */
+  timeUntilUnlock: number;
+}
+
+/** Result of the module's view functions for one deposit. */
+export type DepositStatus = TimeDeposit & ChainLockState;
+
+/** Fields shared by every event we read, taken from the event envelope. */
+export interface EventMeta {
+  coinType: string;
+  txDigest: string;
+  eventSeq: string;
+  timestampMs: number | null;
+}
+
+/** `DepositCreated<CoinType>` event. */
+export interface DepositCreated extends EventMeta {
+  depositId: string;
+  depositor: string;
+  recipient: string;
+  amount: bigint;
+  startTime: number;
+  duration: number;
+  unlockTime: number;
+}
+
+/** `DepositWithdrawn<CoinType>` event. */
+export interface DepositWithdrawn extends EventMeta {
+  depositId: string;
+  withdrawer: string;
+  withdrawTime: number;
+  amountWithdrawn: bigint;
+  withdrawnBy: WithdrawnBy;
+}
+
+/** Either event emitted by the `deposit` module, tagged by struct name. */
+export type DepositEvent =
+  | ({ kind: "DepositCreated" } & DepositCreated)
+  | ({ kind: "DepositWithdrawn" } & DepositWithdrawn);
+
+export interface Page<T, C> {
+  data: T[];
+  nextCursor: C | null;
+  hasNextPage: boolean;
+}
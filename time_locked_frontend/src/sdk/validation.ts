@@ -0,0 +1,42 @@
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { MAX_DURATION_MINUTES } from "./constants.ts";
+import { abortMessage } from "./errors.ts";
+
+export interface DepositInput {
+  recipient: string;
+  amount: bigint;
+  durationMinutes: number;
+}
+
+/** `0x`-prefixed hex of at most 32 bytes; short forms are zero-padded. */
+export function isSuiAddress(value: string): boolean {
+  return (
+    /^0x[0-9a-fA-F]{1,64}$/.test(value) &&
+    isValidSuiAddress(normalizeSuiAddress(value))
+  );
+}
+
+/**
+ * Checks a deposit against the rules `create_deposit` enforces, so it can be
+ * rejected before it aborts on chain. Returns the problems found, if any.
+ */
+export function validateDeposit(
+  { recipient, amount, durationMinutes }: DepositInput,
+  depositor: string,
+): string[] {
+  const errors: string[] = [];
+  if (!isSuiAddress(recipient)) {
+    errors.push("The recipient is not a valid Sui address.");
+  } else if (
+    normalizeSuiAddress(recipient) === normalizeSuiAddress(depositor)
+  ) {
+    errors.push(abortMessage("EInvalidRecipient"));
+  }
+  if (amount <= 0n) errors.push(abortMessage("EInvalidAmount"));
+  if (!Number.isInteger(durationMinutes) || durationMinutes <= 0) {
+    errors.push(abortMessage("EInvalidDuration"));
+  } else if (durationMinutes > MAX_DURATION_MINUTES) {
+    errors.push(abortMessage("EDurationTooLong"));
+  }
+  return errors;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+import { bcs } from "@mysten/sui/bcs";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { MAX_DURATION_MINUTES } from "./constants.ts";
+import type { DepositHistoryEntry } from "./sync.ts";
+import {
+  buildVestingSchedule,
+  groupVestingSchedules,
+  isVestingTransaction,
+  tagVestingTransaction,
+  vestedAmount,
+  vestingCandidates,
+} from "./vesting.ts";
+
+const alice = normalizeSuiAddress("0xa11ce");
+const bob = normalizeSuiAddress("0xb0b");
+const carol = normalizeSuiAddress("0xca201");
+const SUI = "0x2::sui::SUI";
+
+let nextId = 0;
+function entry(
+  txDigest: string,
+  recipient: string,
+  amount: bigint,
+  unlockTime: number,
+  status: DepositHistoryEntry["status"] = "active",
+): DepositHistoryEntry {
+  return {
+    created: {
+      depositId: normalizeSuiAddress(`0xd${++nextId}`),
+      depositor: alice,
+      recipient,
+      amount,
+      startTime: 0,
+      duration: unlockTime,
+      unlockTime,
+      coinType: SUI,
+      txDigest,
+      eventSeq: String(nextId),
+      timestampMs: 0,
+    },
+    withdrawn: null,
+    status,
+  };
+}
+
+/** `SenderSignedData` as the RPC returns it with `showRawInput`. */
+async function rawTransaction(tx: Transaction): Promise<string> {
+  tx.setSender(alice);
+  tx.setGasPrice(1_000);
+  tx.setGasBudget(10_000_000);
+  tx.setGasPayment([]);
+  tx.transferObjects([tx.gas], bob);
+  const bytes = await tx.build();
+  return bcs.SenderSignedData.serialize([
+    {
+      intentMessage: {
+        intent: {
+          scope: { TransactionData: true },
+          version: { V0: true },
+          appId: { Sui: true },
+        },
+        value: bcs.TransactionData.parse(bytes),
+      },
+      txSignatures: [],
+    },
+  ]).toBase64();
+}
+
+describe("buildVestingSchedule", () => {
+  it("gives the remainder to the last tranche", () => {
+    const schedule = buildVestingSchedule({
+      total: 1_000n,
+      startOffsetMinutes: 60,
+      cliffMinutes: 30,
+      tranches: 3,
+      intervalMinutes: 10,
+    });
+    expect(schedule).toEqual([
+      { index: 0, amount: 333n, durationMinutes: 90 },
+      { index: 1, amount: 333n, durationMinutes: 100 },
+      { index: 2, amount: 334n, durationMinutes: 110 },
+    ]);
+  });
+
+  it("unlocks a tranche due now after the contract's minimum", () => {
+    const [first] = buildVestingSchedule({
+      total: 10n,
+      startOffsetMinutes: 0,
+      cliffMinutes: 0,
+      tranches: 1,
+      intervalMinutes: 0,
+    });
+    expect(first.durationMinutes).toBe(1);
+  });
+
+  it("rejects schedules create_deposit can't express", () => {
+    const valid = {
+      total: 100n,
+      startOffsetMinutes: 0,
+      cliffMinutes: 0,
+      tranches: 4,
+      intervalMinutes: 60,
+    };
+    expect(() => buildVestingSchedule({ ...valid, tranches: 0 })).toThrow(
+      /at least one tranche/,
+    );
+    expect(() => buildVestingSchedule({ ...valid, intervalMinutes: 0 })).toThrow(
+      /Interval/,
+    );
+    expect(() => buildVestingSchedule({ ...valid, cliffMinutes: 1.5 })).toThrow(
+      /Cliff/,
+    );
+    expect(() => buildVestingSchedule({ ...valid, total: 3n })).toThrow(
+      /non-zero/,
+    );
+    expect(() =>
+      buildVestingSchedule({ ...valid, cliffMinutes: MAX_DURATION_MINUTES }),
+    ).toThrow(/limited/);
+  });
+});
+
+describe("vesting tag", () => {
+  it("tells tagged transactions apart", async () => {
+    expect(
+      isVestingTransaction(
+        await rawTransaction(tagVestingTransaction(new Transaction())),
+      ),
+    ).toBe(true);
+    const untagged = new Transaction();
+    untagged.pure.string("something else");
+    expect(isVestingTransaction(await rawTransaction(untagged))).toBe(false);
+  });
+});
+
+describe("groupVestingSchedules", () => {
+  const history = [
+    entry("vesting", bob, 30n, 300),
+    entry("vesting", bob, 10n, 100),
+    entry("vesting", bob, 20n, 200, "claimed"),
+    // A bulk transaction paying Bob twice, and Carol once.
+    entry("bulk", bob, 5n, 100),
+    entry("bulk", bob, 5n, 100),
+    entry("bulk", carol, 5n, 100),
+    entry("single", carol, 1n, 100),
+  ];
+
+  it("only checks transactions with repeated deposits to one recipient", () => {
+    expect(vestingCandidates(history).sort()).toEqual(["bulk", "vesting"]);
+  });
+
+  it("groups tagged transactions' deposits by unlock time", () => {
+    const [group, ...rest] = groupVestingSchedules(history, new Set(["vesting"]));
+    expect(rest).toEqual([]);
+    expect(group).toMatchObject({ depositor: alice, recipient: bob, total: 60n });
+    expect(group.tranches.map((t) => t.created.unlockTime)).toEqual([
+      100, 200, 300,
+    ]);
+  });
+
+  it("leaves untagged transactions alone", () => {
+    expect(groupVestingSchedules(history, new Set())).toEqual([]);
+  });
+});
+
+describe("vestedAmount", () => {
+  it("counts unlocked and claimed tranches", () => {
+    const [group] = groupVestingSchedules(
+      [
+        entry("tx", bob, 10n, 100),
+        entry("tx", bob, 20n, 200),
+        entry("tx", bob, 30n, 300),
+      ],
+      new Set(["tx"]),
+    );
+    expect(vestedAmount(group, 99)).toBe(0n);
+    expect(vestedAmount(group, 100)).toBe(10n);
+    expect(vestedAmount(group, 250)).toBe(30n);
+    expect(vestedAmount(group, 300)).toBe(60n);
+    group.tranches[2].status = "claimed";
+    expect(vestedAmount(group, 0)).toBe(30n);
+  });
+});
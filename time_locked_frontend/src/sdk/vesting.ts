@@ -0,0 +1,166 @@
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { MAX_DURATION_MINUTES } from "./constants.ts";
+import type { DepositHistoryEntry } from "./sync.ts";
+
+/**
+ * Pure input every vesting transaction carries. The contract doesn't know
+ * about schedules, so this is what tells one apart from, say, a bulk
+ * transaction that pays one recipient twice.
+ */
+export const VESTING_TAG = "time_locked_deposit::vesting";
+const VESTING_TAG_BYTES = toBase64(bcs.string().serialize(VESTING_TAG).toBytes());
+
+export interface VestingParams {
+  total: bigint;
+  /** Minutes from now until the schedule starts. */
+  startOffsetMinutes: number;
+  /** Minutes after the start before the first tranche unlocks. */
+  cliffMinutes: number;
+  tranches: number;
+  /** Minutes between consecutive tranches. */
+  intervalMinutes: number;
+}
+
+export interface Tranche {
+  index: number;
+  amount: bigint;
+  /** `duration_minutes` to pass to `create_deposit`. */
+  durationMinutes: number;
+}
+
+/**
+ * Splits `total` into equal tranches, the first unlocking at start + cliff
+ * and each later one `intervalMinutes` after the previous. The remainder of
+ * the division goes to the last tranche so the amounts sum to `total`.
+ * Throws if the schedule can't be expressed as `create_deposit` calls.
+ */
+export function buildVestingSchedule({
+  total,
+  startOffsetMinutes,
+  cliffMinutes,
+  tranches,
+  intervalMinutes,
+}: VestingParams): Tranche[] {
+  if (!Number.isInteger(tranches) || tranches < 1) {
+    throw new Error("A schedule needs at least one tranche.");
+  }
+  for (const [name, value] of [
+    ["Start offset", startOffsetMinutes],
+    ["Cliff", cliffMinutes],
+    ["Interval", intervalMinutes],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`${name} must be a whole number of minutes.`);
+    }
+  }
+  if (tranches > 1 && intervalMinutes === 0) {
+    throw new Error("Interval must be at least one minute.");
+  }
+  const base = total / BigInt(tranches);
+  if (base === 0n) {
+    throw new Error("Each tranche must receive a non-zero amount.");
+  }
+
+  const first = startOffsetMinutes + cliffMinutes;
+  const schedule = Array.from({ length: tranches }, (_, index) => ({
+    index,
+    amount: base,
+    // A tranche due "now" still needs the contract's one-minute minimum.
+    durationMinutes: Math.max(1, first + index * intervalMinutes),
+  }));
+  schedule[tranches - 1].amount += total - base * BigInt(tranches);
+
+  const last = schedule[tranches - 1].durationMinutes;
+  if (last > MAX_DURATION_MINUTES) {
+    throw new Error(
+      `The last tranche would unlock after ${last} minutes; deposits are limited to ${MAX_DURATION_MINUTES}.`,
+    );
+  }
+  return schedule;
+}
+
+/** Marks `tx` as creating a vesting schedule; see `VESTING_TAG`. */
+export function tagVestingTransaction(tx: Transaction): Transaction {
+  // An input no command uses is allowed, and it is kept in the transaction.
+  tx.pure.string(VESTING_TAG);
+  return tx;
+}
+
+/**
+ * Whether `rawTransaction`, base64 `SenderSignedData` as the RPC returns
+ * with `showRawInput`, is tagged as a vesting transaction.
+ */
+export function isVestingTransaction(rawTransaction: string): boolean {
+  const [signed] = bcs.SenderSignedData.parse(fromBase64(rawTransaction));
+  const kind = signed?.intentMessage.value.V1?.kind;
+  return (kind?.ProgrammableTransaction?.inputs ?? []).some(
+    (input) => input.Pure?.bytes === VESTING_TAG_BYTES,
+  );
+}
+
+/** Tranches of one schedule: one tagged transaction, one pair, one coin. */
+export interface VestingGroup {
+  id: string;
+  depositor: string;
+  recipient: string;
+  coinType: string;
+  /** Ordered by unlock time. */
+  tranches: DepositHistoryEntry[];
+  total: bigint;
+}
+
+function groupByTransaction(entries: DepositHistoryEntry[]): VestingGroup[] {
+  const groups = new Map<string, VestingGroup>();
+  for (const entry of entries) {
+    const { txDigest, depositor, recipient, coinType } = entry.created;
+    const id = `${txDigest}:${recipient}:${coinType}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = { id, depositor, recipient, coinType, tranches: [], total: 0n };
+      groups.set(id, group);
+    }
+    group.tranches.push(entry);
+    group.total += entry.created.amount;
+  }
+  return [...groups.values()].filter((g) => g.tranches.length > 1);
+}
+
+/**
+ * Transactions that may have created a schedule: those with two or more
+ * deposits of one coin to one recipient. Only these need checking with
+ * `isVestingTransaction`.
+ */
+export function vestingCandidates(entries: DepositHistoryEntry[]): string[] {
+  return [
+    ...new Set(
+      groupByTransaction(entries).map((g) => g.tranches[0].created.txDigest),
+    ),
+  ];
+}
+
+/**
+ * Groups history entries into vesting schedules: the deposits of one coin
+ * to one recipient created by a transaction in `vestingTransactions`.
+ */
+export function groupVestingSchedules(
+  entries: DepositHistoryEntry[],
+  vestingTransactions: ReadonlySet<string>,
+): VestingGroup[] {
+  return groupByTransaction(
+    entries.filter((e) => vestingTransactions.has(e.created.txDigest)),
+  ).map((g) => ({
+    ...g,
+    tranches: g.tranches.sort(
+      (a, b) => a.created.unlockTime - b.created.unlockTime,
+    ),
+  }));
+}
+
+/** Sum of tranches unlocked at `now`, whether claimed yet or not. */
+export function vestedAmount(group: VestingGroup, now: number): bigint {
+  return group.tranches
+    .filter((t) => t.created.unlockTime <= now || t.status === "claimed")
+    .reduce((sum, t) => sum + t.created.amount, 0n);
+}
@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_DEFAULT_NETWORK?: string;
+  readonly VITE_LOCALNET_URL?: string;
+  readonly VITE_PACKAGE_ID_LOCALNET?: string;
+  readonly VITE_PACKAGE_ID_DEVNET?: string;
+  readonly VITE_PACKAGE_ID_TESTNET?: string;
+  readonly VITE_PACKAGE_ID_MAINNET?: string;
+  readonly VITE_INDEXER_URL_LOCALNET?: string;
+  readonly VITE_INDEXER_URL_DEVNET?: string;
+  readonly VITE_INDEXER_URL_TESTNET?: string;
+  readonly VITE_INDEXER_URL_MAINNET?: string;
+  readonly VITE_SPONSOR_URL_LOCALNET?: string;
+  readonly VITE_SPONSOR_URL_DEVNET?: string;
+  readonly VITE_SPONSOR_URL_TESTNET?: string;
+  readonly VITE_SPONSOR_URL_MAINNET?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}